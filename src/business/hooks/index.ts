@@ -3,7 +3,43 @@ export {
   type UseHistoriesManagerConfig,
   type UseHistoriesManagerReturn,
 } from './useHistoriesManager';
-export { useTransitRoute, type UseTransitRouteReturn } from './useTransitRoute';
+export {
+  useHistoriesSeries,
+  type UseHistoriesSeriesOptions,
+  type UseHistoriesSeriesReturn,
+} from './useHistoriesSeries';
+export {
+  useGoalsManager,
+  type UseGoalsManagerConfig,
+  type UseGoalsManagerReturn,
+} from './useGoalsManager';
+export {
+  useTransitRoute,
+  type UseTransitRouteOptions,
+  type UseTransitRouteReturn,
+} from './useTransitRoute';
+export {
+  useDayRoutes,
+  type UseDayRoutesOptions,
+  type UseDayRoutesReturn,
+  type DayLegRoute,
+  type DayLegStatus,
+} from './useDayRoutes';
+export {
+  useItineraryMapData,
+  type UseItineraryMapDataOptions,
+  type UseItineraryMapDataReturn,
+} from './useItineraryMapData';
+export {
+  useLiveItinerary,
+  type UseLiveItineraryOptions,
+  type UseLiveItineraryReturn,
+} from './useLiveItinerary';
+export {
+  useFreshness,
+  type UseFreshnessOptions,
+  type UseFreshnessReturn,
+} from './useFreshness';
 export {
   useTripsManager,
   type UseTripsManagerConfig,
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import type { ItinDay } from '@sudobility/superguide_types';
+import {
+  GeoError,
+  type GeoResult,
+  type RouteEndpoint,
+  type RouteInfo,
+} from '../utils/geo';
+
+// --- Mocks ---
+
+const mockResolve =
+  vi.fn<
+    (
+      from: RouteEndpoint,
+      to: RouteEndpoint,
+      options: { signal?: AbortSignal }
+    ) => Promise<GeoResult<RouteInfo>>
+  >();
+
+vi.mock('../utils/geo', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/geo')>()),
+  resolveTransitRoute: (
+    from: RouteEndpoint,
+    to: RouteEndpoint,
+    options: { signal?: AbortSignal }
+  ) => mockResolve(from, to, options),
+}));
+
+const { useDayRoutes } = await import('./useDayRoutes');
+
+// --- Helpers ---
+
+const route = (mode: RouteInfo['mode'], seconds: number): RouteInfo => ({
+  mode,
+  duration: seconds,
+  distance: seconds * 1.5,
+  coords: [],
+});
+
+const day = (...places: string[]): ItinDay => ({
+  day: 1,
+  date: '2024-06-01',
+  schedule: places.map(place => ({ place })),
+});
+
+describe('useDayRoutes', () => {
+  beforeEach(() => {
+    mockResolve.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('exposes per-leg routes and day totals', async () => {
+    mockResolve.mockImplementation(async (_from, to) =>
+      to === 'C'
+        ? { ok: true, value: route('driving', 900) }
+        : { ok: true, value: route('walking', 600) }
+    );
+    const { result } = renderHook(() => useDayRoutes(day('A', 'B', 'C')));
+    expect(result.current.loading).toBe(true);
+    expect(result.current.legs.map(leg => leg.status)).toEqual([
+      'loading',
+      'loading',
+    ]);
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.legs.map(leg => leg.routeInfo?.mode)).toEqual([
+      'walking',
+      'driving',
+    ]);
+    expect(result.current.totals).toEqual({
+      walkingDistance: 900,
+      drivingDuration: 900,
+      cyclingDuration: 0,
+      transitDuration: 0,
+      totalDuration: 1500,
+    });
+    expect(result.current.error).toBe(false);
+  });
+
+  it('reports the failure reason of a failed leg', async () => {
+    mockResolve.mockImplementation(async (_from, to) =>
+      to === 'Nowhere'
+        ? { ok: false, reason: 'not_found' }
+        : { ok: true, value: route('walking', 600) }
+    );
+    const { result } = renderHook(() => useDayRoutes(day('A', 'B', 'Nowhere')));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.error).toBe(true);
+    expect(result.current.legs[1]).toMatchObject({
+      status: 'error',
+      errorReason: 'not_found',
+      routeInfo: null,
+    });
+  });
+
+  it('fails the legs still loading when resolution rejects', async () => {
+    mockResolve.mockImplementation(async (_from, to) => {
+      if (to === 'C') throw new Error('provider bug');
+      return { ok: true, value: route('walking', 600) };
+    });
+    const { result } = renderHook(() =>
+      useDayRoutes(day('A', 'B', 'C'), { concurrency: 1 })
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.error).toBe(true);
+    expect(result.current.legs.map(leg => leg.status)).toEqual([
+      'ready',
+      'error',
+    ]);
+    expect(result.current.legs[1].errorReason).toBe('bad_response');
+  });
+
+  it('times the day over the resolved legs', async () => {
+    mockResolve.mockResolvedValue({ ok: true, value: route('walking', 1800) });
+    const timedDay: ItinDay = {
+      day: 1,
+      date: '2024-06-01',
+      schedule: [
+        { place: 'A', time: '09:00', endTime: '10:00' },
+        { place: 'B', time: '10:20' },
+      ],
+    };
+    const { result } = renderHook(() => useDayRoutes(timedDay));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.timeline.legs[0]).toMatchObject({
+      departure: 600,
+      arrival: 630,
+    });
+    expect(result.current.timeline.items[1].status).toBe('late');
+  });
+
+  it('limits how many legs are resolved at once', () => {
+    mockResolve.mockReturnValue(new Promise(() => {}));
+    renderHook(() => useDayRoutes(day('A', 'B', 'C', 'D'), { concurrency: 2 }));
+    expect(mockResolve).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not refetch when an equal day is passed again', async () => {
+    mockResolve.mockResolvedValue({ ok: true, value: route('walking', 600) });
+    const { result, rerender } = renderHook(
+      ({ places }) => useDayRoutes(day(...places)),
+      { initialProps: { places: ['A', 'B'] } }
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    rerender({ places: ['A', 'B'] });
+    expect(mockResolve).toHaveBeenCalledTimes(1);
+  });
+
+  it("never pairs a new day with the previous day's legs", async () => {
+    mockResolve.mockResolvedValue({ ok: true, value: route('walking', 600) });
+    const rendered: Array<{ places: string[]; legs: string[] }> = [];
+    const { result, rerender } = renderHook(
+      ({ places }) => {
+        const routes = useDayRoutes(day(...places));
+        rendered.push({
+          places,
+          legs: routes.legs.map(leg => `${leg.from.place}-${leg.to.place}`),
+        });
+        return routes;
+      },
+      { initialProps: { places: ['A', 'B'] } }
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    rendered.length = 0;
+
+    rerender({ places: ['C', 'D'] });
+    expect(rendered[0]).toEqual({ places: ['C', 'D'], legs: ['C-D'] });
+    expect(result.current.legs[0].status).toBe('loading');
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(rendered.every(({ legs }) => legs[0] === 'C-D')).toBe(true);
+  });
+
+  it('aborts in-flight lookups on unmount', () => {
+    mockResolve.mockReturnValue(new Promise(() => {}));
+    const { unmount } = renderHook(() => useDayRoutes(day('A', 'B')));
+    unmount();
+    expect(mockResolve.mock.calls[0][2].signal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,235 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ItinDay } from '@sudobility/superguide_types';
+import type { GeocodeBias } from '../utils/geocoding';
+import {
+  type GeoFailureReason,
+  geoFailureReason,
+  type RouteInfo,
+  type TransitPreferences,
+} from '../utils/geo';
+import {
+  type DayLeg,
+  dayLegs,
+  type DayRouteTotals,
+  resolveDayRoutes,
+  type ResolveDayRoutesOptions,
+  summarizeDayRoutes,
+} from '../utils/itinerary';
+import {
+  computeDayTimeline,
+  type ComputeDayTimelineOptions,
+  type DayTimeline,
+} from '../utils/timeline';
+
+/**
+ * Options for the {@link useDayRoutes} hook.
+ *
+ * Defaults come from the app-wide `configureGeo` configuration.
+ */
+export type UseDayRoutesOptions = Omit<
+  ResolveDayRoutesOptions,
+  'signal' | 'onLeg'
+> &
+  Pick<ComputeDayTimelineOptions, 'tightMargin'>;
+
+/**
+ * Resolution state of a single leg.
+ */
+export type DayLegStatus = 'loading' | 'ready' | 'error';
+
+/**
+ * A leg of the day together with its resolved route.
+ */
+export interface DayLegRoute extends DayLeg {
+  status: DayLegStatus;
+  /** The resolved route, or null while loading / on failure. */
+  routeInfo: RouteInfo | null;
+  /** Why resolution failed, or `null` while loading / on success. */
+  errorReason: GeoFailureReason | null;
+}
+
+/**
+ * Return type for the {@link useDayRoutes} hook.
+ */
+export interface UseDayRoutesReturn {
+  /** Every leg of the day, in schedule order. */
+  legs: DayLegRoute[];
+  /** Travel totals over the legs resolved so far. */
+  totals: DayRouteTotals;
+  /** Departure/arrival times and item statuses over the resolved legs. */
+  timeline: DayTimeline;
+  /** Whether any leg is still being resolved. */
+  loading: boolean;
+  /** Whether any leg failed. */
+  error: boolean;
+}
+
+const pendingLeg = (leg: DayLeg): DayLegRoute => ({
+  ...leg,
+  status: 'loading',
+  routeInfo: null,
+  errorReason: null,
+});
+
+/** The legs of a day with the key of the stops they belong to. */
+interface ResolvedLegs {
+  key: string;
+  legs: DayLegRoute[];
+}
+
+/**
+ * Hook that resolves every leg between consecutive located items of an
+ * itinerary day.
+ *
+ * Legs are resolved at most `options.concurrency` at a time (2 by
+ * default) and each leg's route is exposed as soon as it settles, with
+ * day totals and the day's timeline (see `computeDayTimeline`) over the
+ * legs resolved so far. In-flight lookups are
+ * aborted when the day's stops change or the component unmounts.
+ *
+ * @param day - The itinerary day
+ * @param options - Concurrency, schedule accessors, geocoding bias,
+ *   provider overrides, transit preferences and the tight margin. The stops, `bias`,
+ *   preferences and `departAt` are compared by value; pass stable
+ *   `accessors` and providers.
+ * @returns Per-leg routes and status, day totals, the timeline, and
+ *   loading/error flags
+ */
+export const useDayRoutes = (
+  day: ItinDay,
+  {
+    concurrency,
+    accessors,
+    geocoder,
+    bias,
+    router,
+    transit,
+    departAt,
+    preferences,
+    offlineFallback,
+    tightMargin,
+  }: UseDayRoutesOptions = {}
+): UseDayRoutesReturn => {
+  const legsKey = JSON.stringify(
+    dayLegs(day, accessors).map(({ from, to }) => [
+      from.index,
+      from.place,
+      to.index,
+      to.place,
+    ])
+  );
+  const biasKey = JSON.stringify(bias ?? null);
+  const preferencesKey = JSON.stringify(preferences ?? {});
+  const departAtMs = departAt?.getTime();
+
+  // The day is tracked through its stops (legsKey); lookups read the
+  // latest committed day from here.
+  const dayRef = useRef(day);
+  useEffect(() => {
+    dayRef.current = day;
+  });
+
+  // Legs with the stops they were resolved for, so a new day is never
+  // paired with the previous day's legs.
+  const [resolved, setResolved] = useState<ResolvedLegs>(() => ({
+    key: legsKey,
+    legs: dayLegs(day, accessors).map(pendingLeg),
+  }));
+  const legs = useMemo(
+    () =>
+      resolved.key === legsKey
+        ? resolved.legs
+        : dayLegs(day, accessors).map(pendingLeg),
+    [resolved, legsKey, day, accessors]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const latest = dayRef.current;
+    const setLegs = (update: (legs: DayLegRoute[]) => DayLegRoute[]) =>
+      setResolved(current => ({ key: legsKey, legs: update(current.legs) }));
+    setResolved({
+      key: legsKey,
+      legs: dayLegs(latest, accessors).map(pendingLeg),
+    });
+
+    resolveDayRoutes(latest, {
+      concurrency,
+      accessors,
+      geocoder,
+      bias: (JSON.parse(biasKey) as GeocodeBias | null) ?? undefined,
+      router,
+      transit,
+      departAt: departAtMs === undefined ? undefined : new Date(departAtMs),
+      signal: controller.signal,
+      preferences: JSON.parse(preferencesKey) as TransitPreferences,
+      offlineFallback,
+      onLeg: (index, result) => {
+        if (controller.signal.aborted) return;
+        setLegs(current =>
+          current.map((leg, i) =>
+            i !== index
+              ? leg
+              : result.ok
+                ? {
+                    ...leg,
+                    status: 'ready',
+                    routeInfo: result.value,
+                    errorReason: null,
+                  }
+                : { ...leg, status: 'error', errorReason: result.reason }
+          )
+        );
+      },
+    }).catch(err => {
+      // Aborts are not errors; anything else fails the legs still loading.
+      if (controller.signal.aborted) return;
+      const errorReason = geoFailureReason(err);
+      setLegs(current =>
+        current.map(leg =>
+          leg.status === 'loading'
+            ? { ...leg, status: 'error', errorReason }
+            : leg
+        )
+      );
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [
+    legsKey,
+    concurrency,
+    accessors,
+    geocoder,
+    biasKey,
+    router,
+    transit,
+    departAtMs,
+    preferencesKey,
+    offlineFallback,
+  ]);
+
+  const totals = useMemo(
+    () => summarizeDayRoutes(legs.map(leg => leg.routeInfo)),
+    [legs]
+  );
+
+  const timeline = useMemo(
+    () =>
+      computeDayTimeline(
+        day,
+        legs.map(leg => leg.routeInfo),
+        { accessors, tightMargin }
+      ),
+    [day, legs, accessors, tightMargin]
+  );
+
+  return {
+    legs,
+    totals,
+    timeline,
+    loading: legs.some(leg => leg.status === 'loading'),
+    error: legs.some(leg => leg.status === 'error'),
+  };
+};
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import {
+  configureFormatting,
+  resetFormattingConfig,
+} from '../utils/formatting';
+import { useFreshness } from './useFreshness';
+
+const MINUTE = 60 * 1000;
+const MAX_AGE = 10 * MINUTE;
+
+describe('useFreshness', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2024, 5, 1, 12, 0));
+    configureFormatting({ locale: 'en-US' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    resetFormattingConfig();
+  });
+
+  it('reports the age and status of cached data', () => {
+    const { result } = renderHook(() =>
+      useFreshness(Date.now() - 4 * MINUTE, MAX_AGE)
+    );
+    expect(result.current).toEqual({
+      status: 'fresh',
+      age: 4 * MINUTE,
+      relativeTime: '4 minutes ago',
+    });
+  });
+
+  it('updates on its own as the data ages', () => {
+    const cachedAt = Date.now();
+    const { result } = renderHook(() => useFreshness(cachedAt, MAX_AGE));
+    expect(result.current.status).toBe('fresh');
+
+    act(() => {
+      vi.advanceTimersByTime(5 * MINUTE + 1);
+    });
+    expect(result.current.status).toBe('stale');
+    expect(result.current.relativeTime).toBe('5 minutes ago');
+
+    act(() => {
+      vi.advanceTimersByTime(5 * MINUTE);
+    });
+    expect(result.current.status).toBe('expired');
+  });
+
+  it('reports nothing without a cachedAt', () => {
+    const { result } = renderHook(() => useFreshness(null, MAX_AGE));
+    expect(result.current).toEqual({
+      status: null,
+      age: null,
+      relativeTime: null,
+    });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
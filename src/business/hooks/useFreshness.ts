@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import type { Optional } from '@sudobility/superguide_types';
+import { formatRelativeTime } from '../utils/formatting';
+import { cacheFreshness, type FreshnessStatus } from '../utils/freshness';
+
+/**
+ * Options for the {@link useFreshness} hook.
+ */
+export interface UseFreshnessOptions {
+  /** Age in ms after which data is stale. Defaults to half of `maxAge`. */
+  staleAfter?: number;
+  /**
+   * How often the relative time is refreshed, in ms. Defaults to 30
+   * seconds. Status changes are picked up on time regardless.
+   */
+  refreshInterval?: number;
+}
+
+/**
+ * Return type for the {@link useFreshness} hook.
+ */
+export interface UseFreshnessReturn {
+  /** How current the data is, or `null` without a `cachedAt`. */
+  status: Optional<FreshnessStatus>;
+  /** Age of the data in ms, or `null` without a `cachedAt`. */
+  age: Optional<number>;
+  /**
+   * When the data was cached, relative to now in the configured locale
+   * (e.g. "4 minutes ago"), or `null` without a `cachedAt`.
+   */
+  relativeTime: Optional<string>;
+}
+
+const DEFAULT_REFRESH_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Hook that turns a manager's `cachedAt` into user-facing freshness, for
+ * badges like "Updated 4 minutes ago" that flip to "Outdated" on their
+ * own.
+ *
+ * Re-renders every `refreshInterval` and exactly when the status changes.
+ * Pass the maximum age of the store the data comes from:
+ *
+ * @example
+ * ```typescript
+ * const { cachedAt } = useTripsManager(config);
+ * const { status, relativeTime } = useFreshness(
+ *   cachedAt,
+ *   DEFAULT_TRIP_CACHE_EXPIRATION_MS
+ * );
+ * ```
+ *
+ * @param cachedAt - When the data was cached (ms timestamp), or `null`
+ * @param maxAge - The store's maximum age: `DEFAULT_TRIP_CACHE_EXPIRATION_MS`,
+ *   `DEFAULT_RESTAURANT_CACHE_EXPIRATION_MS` or `DEFAULT_CACHE_EXPIRATION_MS`
+ *   (histories)
+ * @param options - Stale threshold and refresh interval
+ * @returns The status, age and relative time
+ */
+export const useFreshness = (
+  cachedAt: Optional<number>,
+  maxAge: number,
+  {
+    staleAfter,
+    refreshInterval = DEFAULT_REFRESH_INTERVAL_MS,
+  }: UseFreshnessOptions = {}
+): UseFreshnessReturn => {
+  const [now, setNow] = useState(() => Date.now());
+
+  const freshness =
+    cachedAt === null || cachedAt === undefined
+      ? null
+      : cacheFreshness(cachedAt, maxAge, now, staleAfter);
+  const changesIn = freshness?.changesIn ?? null;
+
+  // Refresh the relative time regularly...
+  useEffect(() => {
+    if (cachedAt === null || cachedAt === undefined) return;
+    const timer = setInterval(() => setNow(Date.now()), refreshInterval);
+    return () => {
+      clearInterval(timer);
+    };
+  }, [cachedAt, refreshInterval]);
+
+  // ...and the status exactly when it changes.
+  useEffect(() => {
+    if (changesIn === null) return;
+    const timer = setTimeout(() => setNow(Date.now()), changesIn);
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [changesIn]);
+
+  return {
+    status: freshness?.status ?? null,
+    age: freshness?.age ?? null,
+    relativeTime:
+      cachedAt === null || cachedAt === undefined
+        ? null
+        : formatRelativeTime(cachedAt, now),
+  };
+};
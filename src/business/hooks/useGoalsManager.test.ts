@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import type { History } from '@sudobility/superguide_types';
+import { type Goal, useGoalsStore } from '../stores/goalsStore';
+import { useGoalsManager, type UseGoalsManagerConfig } from './useGoalsManager';
+
+const makeHistory = (overrides: Partial<History> = {}): History => ({
+  id: 'hist-1',
+  user_id: 'user-1',
+  datetime: '2024-01-01T00:00:00Z',
+  value: 100,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const makeGoal = (overrides: Partial<Goal> = {}): Goal => ({
+  id: 'goal-1',
+  target: 500,
+  period: 'month',
+  startDate: '2025-01-01',
+  ...overrides,
+});
+
+const config: UseGoalsManagerConfig = {
+  userId: 'user-1',
+  histories: [
+    makeHistory({ id: '1', datetime: '2025-04-02T12:00:00Z', value: 200 }),
+  ],
+  timeZone: 'UTC',
+  now: new Date('2025-04-10T12:00:00Z'),
+};
+
+describe('useGoalsManager', () => {
+  beforeEach(() => {
+    useGoalsStore.getState().clearAll();
+  });
+
+  it('should return no goals without a user', () => {
+    useGoalsStore.getState().setGoals('user-1', [makeGoal()]);
+    const { result } = renderHook(() =>
+      useGoalsManager({ ...config, userId: null })
+    );
+    expect(result.current.goals).toEqual([]);
+    expect(result.current.progress).toEqual([]);
+  });
+
+  it('should compute progress for the user goals', () => {
+    useGoalsStore
+      .getState()
+      .setGoals('user-1', [
+        makeGoal(),
+        makeGoal({ id: 'goal-2', target: 150 }),
+      ]);
+    const { result } = renderHook(() => useGoalsManager(config));
+
+    expect(result.current.progress.map(p => [p.goal.id, p.status])).toEqual([
+      ['goal-1', 'on_track'],
+      ['goal-2', 'completed'],
+    ]);
+    expect(result.current.progress[0].current).toBe(200);
+  });
+
+  it('should add, update and remove goals for the user', () => {
+    const { result } = renderHook(() => useGoalsManager(config));
+
+    act(() => result.current.addGoal(makeGoal()));
+    expect(result.current.goals).toHaveLength(1);
+    expect(useGoalsStore.getState().getGoals('user-1')).toHaveLength(1);
+
+    act(() => result.current.updateGoal('goal-1', makeGoal({ target: 100 })));
+    expect(result.current.progress[0].status).toBe('completed');
+
+    act(() => result.current.removeGoal('goal-1'));
+    expect(result.current.goals).toEqual([]);
+  });
+
+  it('should not store goals without a user', () => {
+    const { result } = renderHook(() =>
+      useGoalsManager({ ...config, userId: undefined })
+    );
+    act(() => result.current.addGoal(makeGoal()));
+    expect(useGoalsStore.getState().goals).toEqual({});
+  });
+
+  it('should recompute progress when histories change', () => {
+    useGoalsStore.getState().setGoals('user-1', [makeGoal()]);
+    const { result, rerender } = renderHook(
+      ({ histories }: { histories: History[] }) =>
+        useGoalsManager({ ...config, histories }),
+      { initialProps: { histories: config.histories } }
+    );
+    const first = result.current;
+    rerender({ histories: config.histories });
+    expect(result.current).toBe(first);
+
+    rerender({
+      histories: [
+        ...config.histories,
+        makeHistory({ id: '2', datetime: '2025-04-09T12:00:00Z', value: 300 }),
+      ],
+    });
+    expect(result.current.progress[0].status).toBe('completed');
+  });
+});
@@ -0,0 +1,166 @@
+import { useCallback, useMemo } from 'react';
+import type { History, Optional } from '@sudobility/superguide_types';
+import { type Goal, useGoalsStore } from '../stores/goalsStore';
+import { calculateGoalProgress, type GoalProgress } from '../utils/goals';
+
+/**
+ * Configuration for the {@link useGoalsManager} hook.
+ *
+ * @example
+ * ```typescript
+ * const { histories } = useHistoriesManager(historiesConfig);
+ * const config: UseGoalsManagerConfig = {
+ *   userId: 'firebase-uid-123',
+ *   histories,
+ *   timeZone: 'Europe/Paris',
+ * };
+ * ```
+ */
+export interface UseGoalsManagerConfig {
+  /**
+   * The Firebase UID of the authenticated user, or `null`/`undefined` when not logged in.
+   * Goals are isolated per user -- switching users shows that user's goals.
+   */
+  userId: Optional<string>;
+
+  /**
+   * The user's histories, normally `histories` from `useHistoriesManager`.
+   */
+  histories: History[];
+
+  /**
+   * IANA time zone in which history `datetime`s are assigned to days.
+   *
+   * @defaultValue the device's time zone
+   */
+  timeZone?: string;
+
+  /**
+   * The current time, which decides each goal's current period.
+   *
+   * When omitted, the time is taken whenever the goals or histories
+   * change; pass a clock updated e.g. every minute to roll over to the
+   * next period on time.
+   */
+  now?: Date;
+}
+
+/**
+ * Return type for the {@link useGoalsManager} hook.
+ */
+export interface UseGoalsManagerReturn {
+  /** The user's goals, or an empty array when not logged in. */
+  goals: Goal[];
+
+  /**
+   * Progress towards each goal in its current period, in the same order
+   * as `goals`. See `calculateGoalProgress`.
+   */
+  progress: GoalProgress[];
+
+  /**
+   * Adds a goal for the user. Does nothing when not logged in.
+   *
+   * @param goal - The goal to add
+   */
+  addGoal: (goal: Goal) => void;
+
+  /**
+   * Replaces a goal by ID. Does nothing when not logged in.
+   *
+   * @param goalId - The ID of the goal to replace
+   * @param goal - The updated goal
+   */
+  updateGoal: (goalId: string, goal: Goal) => void;
+
+  /**
+   * Removes a goal by ID. Does nothing when not logged in.
+   *
+   * @param goalId - The ID of the goal to remove
+   */
+  removeGoal: (goalId: string) => void;
+}
+
+const NO_GOALS: Goal[] = [];
+
+/**
+ * Business logic hook combining the user's goals from `useGoalsStore`
+ * with their histories, e.g. to show "320 / 500 this month -- on track".
+ *
+ * Progress is recomputed when the goals, histories, time zone or `now`
+ * change.
+ *
+ * @param config - The hook configuration (see {@link UseGoalsManagerConfig})
+ * @returns The goals, their progress and mutation functions (see {@link UseGoalsManagerReturn})
+ *
+ * @example
+ * ```typescript
+ * function GoalCards({ userId }: { userId: string }) {
+ *   const { histories } = useHistoriesManager({ ...config, userId });
+ *   const { progress, addGoal } = useGoalsManager({ userId, histories });
+ *
+ *   return progress.map(p => (
+ *     <GoalCard
+ *       key={p.goal.id}
+ *       label={`${p.current} / ${p.goal.target}`}
+ *       percentage={p.percentage}
+ *       onTrack={p.status !== 'behind'}
+ *     />
+ *   ));
+ * }
+ * ```
+ */
+export const useGoalsManager = ({
+  userId,
+  histories,
+  timeZone,
+  now,
+}: UseGoalsManagerConfig): UseGoalsManagerReturn => {
+  const goals = useGoalsStore(
+    useCallback(
+      state => (userId ? (state.goals[userId] ?? NO_GOALS) : NO_GOALS),
+      [userId]
+    )
+  );
+  const addGoalToStore = useGoalsStore(state => state.addGoal);
+  const updateGoalInStore = useGoalsStore(state => state.updateGoal);
+  const removeGoalFromStore = useGoalsStore(state => state.removeGoal);
+
+  const nowMs = now?.getTime();
+  const progress = useMemo(
+    () =>
+      goals.map(goal =>
+        calculateGoalProgress(goal, histories, {
+          timeZone,
+          now: nowMs === undefined ? undefined : new Date(nowMs),
+        })
+      ),
+    [goals, histories, timeZone, nowMs]
+  );
+
+  const addGoal = useCallback(
+    (goal: Goal) => {
+      if (userId) addGoalToStore(userId, goal);
+    },
+    [userId, addGoalToStore]
+  );
+
+  const updateGoal = useCallback(
+    (goalId: string, goal: Goal) => {
+      if (userId) updateGoalInStore(userId, goalId, goal);
+    },
+    [userId, updateGoalInStore]
+  );
+
+  const removeGoal = useCallback(
+    (goalId: string) => {
+      if (userId) removeGoalFromStore(userId, goalId);
+    },
+    [userId, removeGoalFromStore]
+  );
+
+  return useMemo(
+    () => ({ goals, progress, addGoal, updateGoal, removeGoal }),
+    [goals, progress, addGoal, updateGoal, removeGoal]
+  );
+};
@@ -95,6 +95,7 @@ describe('useHistoriesManager', () => {
 
   afterEach(() => {
     vi.restoreAllMocks();
+    vi.useRealTimers();
   });
 
   describe('basic data flow', () => {
@@ -202,6 +203,59 @@ describe('useHistoriesManager', () => {
     });
   });
 
+  describe('statistics', () => {
+    it('should return null statistics and trend without histories', () => {
+      const { result } = renderHook(() => useHistoriesManager(defaultConfig));
+      expect(result.current.statistics).toBeNull();
+      expect(result.current.trend).toBeNull();
+      expect(result.current.streaks).toEqual({ current: 0, longest: 0 });
+    });
+
+    it('should describe the histories', () => {
+      // The Monday after the second week
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-15T12:00:00Z'));
+      mockHistoriesReturn.histories = [
+        makeHistory({ id: '1', datetime: '2024-01-01T12:00:00Z', value: 10 }),
+        makeHistory({ id: '2', datetime: '2024-01-02T12:00:00Z', value: 30 }),
+        makeHistory({ id: '3', datetime: '2024-01-09T12:00:00Z', value: 20 }),
+      ];
+
+      const { result } = renderHook(() =>
+        useHistoriesManager({ ...defaultConfig, timeZone: 'UTC' })
+      );
+      expect(result.current.statistics).toMatchObject({
+        count: 3,
+        sum: 60,
+        mean: 20,
+        median: 20,
+        p25: 15,
+        p75: 25,
+        p90: 28,
+        min: 10,
+        max: 30,
+      });
+      expect(result.current.streaks.longest).toBe(2);
+      expect(result.current.trend).toEqual({
+        slopePerWeek: -20,
+        projection: 0,
+        weeks: 2,
+      });
+    });
+
+    it('should keep the same statistics across re-renders', () => {
+      mockHistoriesReturn.histories = [makeHistory({ value: 10 })];
+
+      const { result, rerender } = renderHook(() =>
+        useHistoriesManager(defaultConfig)
+      );
+      const { statistics, streaks } = result.current;
+      rerender();
+      expect(result.current.statistics).toBe(statistics);
+      expect(result.current.streaks).toBe(streaks);
+    });
+  });
+
   describe('loading state', () => {
     it('should aggregate loading from histories', () => {
       mockHistoriesReturn.isLoading = true;
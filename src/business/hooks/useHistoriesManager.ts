@@ -10,6 +10,14 @@ import type { FirebaseIdToken } from '@sudobility/superguide_client';
 import { useHistories, useHistoriesTotal } from '@sudobility/superguide_client';
 import { useHistoriesStore } from '../stores/historiesStore';
 import { calculatePercentage } from '../utils/calculations';
+import {
+  calculateStreaks,
+  calculateTrend,
+  describeHistories,
+  type HistoryStatistics,
+  type HistoryStreaks,
+  type HistoryTrend,
+} from '../utils/statistics';
 
 /**
  * Configuration for the {@link useHistoriesManager} hook.
@@ -60,6 +68,15 @@ export interface UseHistoriesManagerConfig {
    * @defaultValue `true`
    */
   autoFetch?: boolean;
+
+  /**
+   * IANA time zone in which history `datetime`s are assigned to days and
+   * weeks for {@link UseHistoriesManagerReturn.streaks | streaks} and
+   * {@link UseHistoriesManagerReturn.trend | trend}.
+   *
+   * @defaultValue the device's time zone
+   */
+  timeZone?: string;
 }
 
 /**
@@ -91,6 +108,29 @@ export interface UseHistoriesManagerReturn {
    */
   percentage: number;
 
+  /**
+   * Mean, median, p25/p75/p90 percentiles, min/max and standard deviation
+   * of the histories' values, or `null` when there are none. See
+   * `describeHistories`.
+   */
+  statistics: HistoryStatistics | null;
+
+  /**
+   * Current and longest runs of consecutive days with a history, in the
+   * configured time zone. See `calculateStreaks`.
+   *
+   * Note: "today" is taken when the histories change, so the current
+   * streak is not updated at midnight on its own.
+   */
+  streaks: HistoryStreaks;
+
+  /**
+   * Linear trend of the complete weeks' sums with a projection for the
+   * current week, or `null` with fewer than two complete weeks of data.
+   * See `calculateTrend`.
+   */
+  trend: HistoryTrend | null;
+
   /**
    * Whether any operation is currently in progress (fetching histories,
    * fetching total, or performing a mutation).
@@ -170,6 +210,7 @@ export interface UseHistoriesManagerReturn {
  * - **Client-side caching** via the Zustand `useHistoriesStore`
  * - **Cache fallback** -- shows cached data while waiting for server response
  * - **Percentage calculation** -- computes `(userSum / globalTotal) * 100`
+ * - **Statistics** -- memoized descriptive statistics, streaks and trend of the values
  * - **Auto-fetch** -- fetches on mount with `useRef` guard against React strict-mode double-mount
  * - **Token reactivity** -- resets the fetch guard when the token changes to prevent stale data
  * - **Error propagation** -- surfaces errors from failed mutations so the UI can display feedback
@@ -215,6 +256,7 @@ export const useHistoriesManager = ({
   userId,
   token,
   autoFetch = true,
+  timeZone,
 }: UseHistoriesManagerConfig): UseHistoriesManagerReturn => {
   const {
     histories: clientHistories,
@@ -277,6 +319,16 @@ export const useHistoriesManager = ({
     [histories, total]
   );
 
+  const statistics = useMemo(() => describeHistories(histories), [histories]);
+  const streaks = useMemo(
+    () => calculateStreaks(histories, { timeZone }),
+    [histories, timeZone]
+  );
+  const trend = useMemo(
+    () => calculateTrend(histories, { timeZone }),
+    [histories, timeZone]
+  );
+
   const createHistory = useCallback(
     async (data: HistoryCreateRequest): Promise<void> => {
       const response = await clientCreate(data);
@@ -344,6 +396,9 @@ export const useHistoriesManager = ({
       histories,
       total,
       percentage,
+      statistics,
+      streaks,
+      trend,
       isLoading,
       error,
       isCached,
@@ -357,6 +412,9 @@ export const useHistoriesManager = ({
       histories,
       total,
       percentage,
+      statistics,
+      streaks,
+      trend,
       isLoading,
       error,
       isCached,
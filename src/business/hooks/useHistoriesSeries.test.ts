@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import type { History } from '@sudobility/superguide_types';
+import type { HistoryGranularity } from '../utils/historySeries';
+import { useHistoriesSeries } from './useHistoriesSeries';
+
+const makeHistory = (overrides: Partial<History> = {}): History => ({
+  id: 'hist-1',
+  user_id: 'user-1',
+  datetime: '2024-01-01T00:00:00Z',
+  value: 100,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const histories = [
+  makeHistory({ id: '1', datetime: '2025-01-01T12:00:00Z', value: 10 }),
+  makeHistory({ id: '2', datetime: '2025-01-03T12:00:00Z', value: 20 }),
+  makeHistory({ id: '3', datetime: '2025-02-01T12:00:00Z', value: 30 }),
+];
+
+describe('useHistoriesSeries', () => {
+  it('should bucket histories and total the range', () => {
+    const { result } = renderHook(() =>
+      useHistoriesSeries(histories, 'month', { timeZone: 'UTC' })
+    );
+    expect(result.current.buckets.map(b => [b.start, b.sum])).toEqual([
+      ['2025-01-01', 30],
+      ['2025-02-01', 30],
+    ]);
+    expect(result.current.sum).toBe(60);
+    expect(result.current.count).toBe(3);
+  });
+
+  it('should only count histories within the range', () => {
+    const { result } = renderHook(() =>
+      useHistoriesSeries(histories, 'day', {
+        timeZone: 'UTC',
+        from: '2025-01-02',
+        to: '2025-01-31',
+      })
+    );
+    expect(result.current.buckets).toHaveLength(30);
+    expect(result.current.sum).toBe(20);
+    expect(result.current.count).toBe(1);
+  });
+
+  it('should re-bucket when the granularity changes', () => {
+    const { result, rerender } = renderHook(
+      ({ granularity }: { granularity: HistoryGranularity }) =>
+        useHistoriesSeries(histories, granularity, { timeZone: 'UTC' }),
+      { initialProps: { granularity: 'year' as HistoryGranularity } }
+    );
+    expect(result.current.buckets).toHaveLength(1);
+
+    rerender({ granularity: 'day' });
+    expect(result.current.buckets).toHaveLength(32);
+  });
+
+  it('should keep the same result while inputs are unchanged', () => {
+    const { result, rerender } = renderHook(() =>
+      useHistoriesSeries(histories, 'week', { timeZone: 'UTC' })
+    );
+    const first = result.current;
+    rerender();
+    expect(result.current).toBe(first);
+  });
+});
@@ -0,0 +1,64 @@
+import { useMemo } from 'react';
+import type { History } from '@sudobility/superguide_types';
+import {
+  bucketHistories,
+  type BucketHistoriesOptions,
+  type HistoryBucket,
+  type HistoryGranularity,
+} from '../utils/historySeries';
+
+/**
+ * Options for the {@link useHistoriesSeries} hook.
+ */
+export type UseHistoriesSeriesOptions = BucketHistoriesOptions;
+
+/**
+ * Return type for the {@link useHistoriesSeries} hook.
+ */
+export interface UseHistoriesSeriesReturn {
+  /** One bucket per day, week, month or year, oldest first. */
+  buckets: HistoryBucket[];
+  /** Sum of the values within the series' range. */
+  sum: number;
+  /** Number of histories within the series' range. */
+  count: number;
+}
+
+/**
+ * Hook that turns histories into a chart-ready time series, re-bucketed
+ * whenever the histories, granularity or range change.
+ *
+ * Companion to `useHistoriesManager`; keep the granularity in state
+ * to let users switch between views:
+ *
+ * @example
+ * ```typescript
+ * const { histories } = useHistoriesManager(config);
+ * const [granularity, setGranularity] = useState<HistoryGranularity>('week');
+ * const { buckets } = useHistoriesSeries(histories, granularity, {
+ *   timeZone: 'Europe/Paris',
+ * });
+ * ```
+ *
+ * @param histories - The histories, e.g. from `useHistoriesManager`
+ * @param granularity - The bucket length
+ * @param options - Time zone and date range (see `bucketHistories`)
+ * @returns The buckets and their totals
+ */
+export const useHistoriesSeries = (
+  histories: History[],
+  granularity: HistoryGranularity,
+  { timeZone, from, to }: UseHistoriesSeriesOptions = {}
+): UseHistoriesSeriesReturn =>
+  useMemo(() => {
+    const buckets = bucketHistories(histories, granularity, {
+      timeZone,
+      from,
+      to,
+    });
+    return {
+      buckets,
+      sum: buckets.reduce((total, bucket) => total + bucket.sum, 0),
+      count: buckets.reduce((total, bucket) => total + bucket.count, 0),
+    };
+  }, [histories, granularity, timeZone, from, to]);
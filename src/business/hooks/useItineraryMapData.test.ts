@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import type { ItinDay } from '@sudobility/superguide_types';
+import type { ItineraryMapDayResult } from '../utils/mapData';
+
+// --- Mocks ---
+
+const mockResolveDay =
+  vi.fn<
+    (
+      day: ItinDay,
+      options: { signal?: AbortSignal }
+    ) => Promise<ItineraryMapDayResult>
+  >();
+
+vi.mock('../utils/mapData', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/mapData')>()),
+  resolveItineraryMapDay: (day: ItinDay, options: { signal?: AbortSignal }) =>
+    mockResolveDay(day, options),
+}));
+
+const { useItineraryMapData } = await import('./useItineraryMapData');
+
+// --- Helpers ---
+
+const itin: ItinDay[] = [1, 2].map(n => ({
+  day: n,
+  date: `2024-06-0${n}`,
+  schedule: [{ place: `Hotel ${n}` }],
+}));
+
+const located = (day: ItinDay): ItineraryMapDayResult => ({
+  mapDay: {
+    day: day.day,
+    stops: [
+      {
+        index: 0,
+        item: day.schedule[0],
+        place: day.schedule[0].place,
+        coords: { lat: day.day === 1 ? 48.86 : 48.87, lng: 2.35 },
+      },
+    ],
+    legs: [],
+  },
+  failures: [],
+});
+
+describe('useItineraryMapData', () => {
+  beforeEach(() => {
+    mockResolveDay.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('builds the collection from every day in order', async () => {
+    mockResolveDay.mockImplementation(async day => located(day));
+    const { result } = renderHook(() => useItineraryMapData(itin));
+    expect(result.current.loading).toBe(true);
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(
+      result.current.data.features.map(feature => feature.properties.day)
+    ).toEqual([1, 2]);
+    expect(result.current.data.bbox).toEqual([2.35, 48.86, 2.35, 48.87]);
+    expect(result.current.error).toBe(false);
+  });
+
+  it('flags days with unresolved stops or legs', async () => {
+    mockResolveDay.mockImplementation(async day => ({
+      ...located(day),
+      failures: day.day === 2 ? [{ ok: false, reason: 'not_found' }] : [],
+    }));
+    const { result } = renderHook(() => useItineraryMapData(itin));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.error).toBe(true);
+  });
+
+  it('picks up edited stop times', async () => {
+    mockResolveDay.mockImplementation(async day => {
+      const { mapDay } = located(day);
+      const time = (day.schedule[0] as { time?: string }).time;
+      return {
+        mapDay: {
+          ...mapDay,
+          stops: mapDay.stops.map(stop => ({ ...stop, time })),
+        },
+        failures: [],
+      };
+    });
+    const timed = (time: string): ItinDay[] =>
+      itin.map(day => ({
+        ...day,
+        schedule: [{ ...day.schedule[0], time }],
+      }));
+    const { result, rerender } = renderHook(
+      ({ days }) => useItineraryMapData(days),
+      { initialProps: { days: timed('09:00') } }
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    rerender({ days: timed('10:30') });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(mockResolveDay).toHaveBeenCalledTimes(4);
+    expect(
+      result.current.data.features.map(feature => feature.properties.time)
+    ).toEqual(['10:30', '10:30']);
+  });
+
+  it('flags an unexpected rejection', async () => {
+    mockResolveDay.mockRejectedValue(new Error('provider bug'));
+    const { result } = renderHook(() => useItineraryMapData(itin));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.error).toBe(true);
+  });
+
+  it('aborts in-flight lookups on unmount', () => {
+    mockResolveDay.mockReturnValue(new Promise(() => {}));
+    const { unmount } = renderHook(() => useItineraryMapData(itin));
+    unmount();
+    expect(mockResolveDay.mock.calls[0][1].signal?.aborted).toBe(true);
+  });
+});
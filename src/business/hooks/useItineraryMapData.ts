@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ItinDay } from '@sudobility/superguide_types';
+import type { TransitPreferences } from '../utils/geo';
+import type { GeocodeBias } from '../utils/geocoding';
+import { locatedStops } from '../utils/itinerary';
+import {
+  buildItineraryMapData,
+  type BuildItineraryMapDataOptions,
+  type ItineraryFeatureCollection,
+  type ItineraryMapDay,
+  resolveItineraryMapDay,
+  type ResolveItineraryMapDayOptions,
+} from '../utils/mapData';
+
+/**
+ * Options for the {@link useItineraryMapData} hook.
+ *
+ * Defaults come from the app-wide `configureGeo` configuration.
+ */
+export type UseItineraryMapDataOptions = Omit<
+  ResolveItineraryMapDayOptions,
+  'signal'
+> &
+  BuildItineraryMapDataOptions;
+
+/**
+ * Return type for the {@link useItineraryMapData} hook.
+ */
+export interface UseItineraryMapDataReturn {
+  /** Stops and legs resolved so far, ready for a map's GeoJSON source. */
+  data: ItineraryFeatureCollection;
+  /** Whether days are still being resolved. */
+  loading: boolean;
+  /** Whether any stop or leg could not be resolved. */
+  error: boolean;
+}
+
+/**
+ * Hook that turns a whole itinerary into map-ready GeoJSON.
+ *
+ * Geocodes every located schedule item and resolves every leg, one day
+ * at a time (legs within a day with bounded concurrency), and exposes the
+ * FeatureCollection built by `buildItineraryMapData` as days complete.
+ * Stops and legs that cannot be resolved are left out and set `error`.
+ * In-flight lookups are aborted when the itinerary's stops or their times
+ * change, or the component unmounts.
+ *
+ * @param itin - The itinerary days
+ * @param options - Options passed to `resolveItineraryMapDay` for each
+ *   day, plus the leg simplification tolerance. The stops and their
+ *   times, `bias`, preferences and `departAt` are compared by value; pass
+ *   stable `accessors` and providers.
+ * @returns The FeatureCollection, and loading/error flags
+ */
+export const useItineraryMapData = (
+  itin: ItinDay[],
+  {
+    simplify,
+    concurrency,
+    accessors,
+    geocoder,
+    bias,
+    router,
+    transit,
+    departAt,
+    preferences,
+    offlineFallback,
+  }: UseItineraryMapDataOptions = {}
+): UseItineraryMapDataReturn => {
+  const itinKey = JSON.stringify(
+    itin.map(day => [
+      day.day,
+      locatedStops(day, accessors).map(({ index, place, time }) => [
+        index,
+        place,
+        time,
+      ]),
+    ])
+  );
+  const biasKey = JSON.stringify(bias ?? null);
+  const preferencesKey = JSON.stringify(preferences ?? {});
+  const departAtMs = departAt?.getTime();
+
+  // The itinerary is tracked through its stops and their times
+  // (itinKey); lookups read the latest committed days from here.
+  const itinRef = useRef(itin);
+  useEffect(() => {
+    itinRef.current = itin;
+  });
+
+  const [mapDays, setMapDays] = useState<ItineraryMapDay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const days = itinRef.current;
+    setMapDays([]);
+    setLoading(true);
+    setError(false);
+
+    const resolveAll = async () => {
+      for (const day of days) {
+        const { mapDay, failures } = await resolveItineraryMapDay(day, {
+          concurrency,
+          accessors,
+          geocoder,
+          bias: (JSON.parse(biasKey) as GeocodeBias | null) ?? undefined,
+          router,
+          transit,
+          departAt: departAtMs === undefined ? undefined : new Date(departAtMs),
+          signal: controller.signal,
+          preferences: JSON.parse(preferencesKey) as TransitPreferences,
+          offlineFallback,
+        });
+        if (controller.signal.aborted) return;
+        setMapDays(current => [...current, mapDay]);
+        if (failures.length > 0) setError(true);
+      }
+      setLoading(false);
+    };
+    resolveAll().catch(() => {
+      // Aborts are not errors; anything else is a bug in a provider.
+      if (controller.signal.aborted) return;
+      setError(true);
+      setLoading(false);
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [
+    itinKey,
+    concurrency,
+    accessors,
+    geocoder,
+    biasKey,
+    router,
+    transit,
+    departAtMs,
+    preferencesKey,
+    offlineFallback,
+  ]);
+
+  const data = useMemo(
+    () => buildItineraryMapData(mapDays, { simplify }),
+    [mapDays, simplify]
+  );
+
+  return { data, loading, error };
+};
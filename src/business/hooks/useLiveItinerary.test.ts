@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import type { ItinDay } from '@sudobility/superguide_types';
+import {
+  type Coords,
+  GeoError,
+  type GeoResult,
+  type RouteEndpoint,
+  type RouteInfo,
+} from '../utils/geo';
+
+// --- Mocks ---
+
+const mockResolve =
+  vi.fn<
+    (
+      from: RouteEndpoint,
+      to: RouteEndpoint,
+      options: { signal?: AbortSignal }
+    ) => Promise<GeoResult<RouteInfo>>
+  >();
+
+vi.mock('../utils/geo', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/geo')>()),
+  resolveTransitRoute: (
+    from: RouteEndpoint,
+    to: RouteEndpoint,
+    options: { signal?: AbortSignal }
+  ) => mockResolve(from, to, options),
+}));
+
+const { useLiveItinerary } = await import('./useLiveItinerary');
+
+// --- Helpers ---
+
+const itin: ItinDay[] = [
+  {
+    day: 1,
+    date: '2024-06-01',
+    schedule: [
+      { place: 'Louvre', time: '09:00', endTime: '11:00' },
+      { place: 'Orsay', time: '12:00' },
+    ],
+  },
+];
+
+// Along an east-west street
+const route: RouteInfo = {
+  mode: 'walking',
+  duration: 900,
+  distance: 1200,
+  coords: [
+    [48.86, 2.33],
+    [48.86, 2.34],
+  ],
+};
+
+const now = new Date(2024, 5, 1, 11, 30);
+const onRoute: Coords = { lat: 48.86, lng: 2.332 };
+
+describe('useLiveItinerary', () => {
+  beforeEach(() => {
+    mockResolve.mockReset();
+    mockResolve.mockResolvedValue({ ok: true, value: route });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('routes from the device to the next stop', async () => {
+    const { result } = renderHook(() =>
+      useLiveItinerary(itin, now, { ...onRoute })
+    );
+    expect(result.current.current).toBeNull();
+    expect(result.current.next?.place).toBe('Orsay');
+    expect(result.current.minutesUntilNext).toBe(30);
+    await waitFor(() => expect(result.current.routeInfo).toEqual(route));
+    expect(result.current.loading).toBe(false);
+    expect(mockResolve).toHaveBeenCalledTimes(1);
+    expect(mockResolve.mock.calls[0].slice(0, 2)).toEqual([onRoute, 'Orsay']);
+  });
+
+  it('exposes the reason of an unexpected rejection', async () => {
+    mockResolve.mockRejectedValue(new GeoError('rate_limited'));
+    const { result } = renderHook(() => useLiveItinerary(itin, now, onRoute));
+    await waitFor(() =>
+      expect(result.current.errorReason).toBe('rate_limited')
+    );
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error).toBe(true);
+  });
+
+  it('keeps the route while the device stays near it', async () => {
+    const { result, rerender } = renderHook(
+      ({ position }) => useLiveItinerary(itin, now, position),
+      { initialProps: { position: onRoute } }
+    );
+    await waitFor(() => expect(result.current.routeInfo).toEqual(route));
+    // About 22 m north of the street
+    rerender({ position: { lat: 48.8602, lng: 2.335 } });
+    expect(mockResolve).toHaveBeenCalledTimes(1);
+    expect(result.current.routeInfo).toEqual(route);
+  });
+
+  it('re-routes when the device strays beyond the threshold', async () => {
+    const { result, rerender } = renderHook(
+      ({ position }) =>
+        useLiveItinerary(itin, now, position, { rerouteThreshold: 50 }),
+      { initialProps: { position: onRoute } }
+    );
+    await waitFor(() => expect(result.current.routeInfo).toEqual(route));
+    // About 111 m north of the street
+    const strayed = { lat: 48.861, lng: 2.335 };
+    rerender({ position: strayed });
+    await waitFor(() => expect(mockResolve).toHaveBeenCalledTimes(2));
+    expect(mockResolve.mock.calls[1][0]).toEqual(strayed);
+  });
+
+  it('does not route without a position or a next stop', () => {
+    const { result } = renderHook(() => useLiveItinerary(itin, now, null));
+    const late = renderHook(() =>
+      useLiveItinerary(itin, new Date(2024, 5, 1, 13, 0), onRoute)
+    );
+    expect(mockResolve).not.toHaveBeenCalled();
+    expect(result.current.loading).toBe(false);
+    expect(late.result.current.current?.place).toBe('Orsay');
+    expect(late.result.current.next).toBeNull();
+  });
+
+  it('aborts the in-flight lookup on unmount', () => {
+    mockResolve.mockReturnValue(new Promise(() => {}));
+    const { unmount } = renderHook(() => useLiveItinerary(itin, now, onRoute));
+    unmount();
+    expect(mockResolve.mock.calls[0][2].signal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { ItinDay } from '@sudobility/superguide_types';
+import {
+  type Coords,
+  type GeoFailureReason,
+  geoFailureReason,
+  resolveTransitRoute,
+  type ResolveTransitRouteOptions,
+  type RouteEndpoint,
+  type RouteInfo,
+  type TransitPreferences,
+} from '../utils/geo';
+import type { GeocodeBias } from '../utils/geocoding';
+import { distanceToPath } from '../utils/geometry';
+import type { ScheduleAccessors } from '../utils/itinerary';
+import {
+  DEFAULT_REROUTE_THRESHOLD_METRES,
+  findItineraryCursor,
+  type LiveScheduleItem,
+} from '../utils/live';
+
+/**
+ * Options for the {@link useLiveItinerary} hook.
+ *
+ * Defaults come from the app-wide `configureGeo` configuration.
+ */
+export type UseLiveItineraryOptions = Omit<
+  ResolveTransitRouteOptions,
+  'signal' | 'departAt'
+> & {
+  /** Reads locations and times from schedule items. */
+  accessors?: ScheduleAccessors;
+  /**
+   * The destination's IANA time zone, in which the itinerary's dates and
+   * times are read. Defaults to the device's.
+   */
+  timeZone?: string;
+  /**
+   * Metres the position may stray from the route before re-routing.
+   * Defaults to 50.
+   */
+  rerouteThreshold?: number;
+};
+
+/**
+ * Return type for the {@link useLiveItinerary} hook.
+ */
+export interface UseLiveItineraryReturn {
+  /** The itinerary day whose date is today, or `null`. */
+  day: ItinDay | null;
+  /** The item under way, or `null` between items. */
+  current: LiveScheduleItem | null;
+  /** The next item to start today, or `null` after the last one. */
+  next: LiveScheduleItem | null;
+  /** Whole minutes until `next` starts, or `null` without one. */
+  minutesUntilNext: number | null;
+  /** The route from the device to the next stop, or null if not loaded. */
+  routeInfo: RouteInfo | null;
+  /** Whether the route is currently being resolved. */
+  loading: boolean;
+  /** Whether route resolution failed. */
+  error: boolean;
+  /** Why route resolution failed, or `null` while loading / on success. */
+  errorReason: GeoFailureReason | null;
+}
+
+/** Where the current route starts and which stop it leads to. */
+interface RouteRequest {
+  origin: Coords;
+  targetKey: string;
+}
+
+/**
+ * Hook for live trip mode: what's next and how to get there.
+ *
+ * Finds today's itinerary day and its current and next timed items (see
+ * `findItineraryCursor`), and resolves a route from the device position
+ * to the next item's place, departing now. The route is kept while the
+ * device stays within `rerouteThreshold` metres of it; beyond that, or
+ * when the next stop changes, it is resolved again from the latest
+ * position. In-flight lookups are aborted on re-routing and unmount.
+ *
+ * @param itin - The itinerary days
+ * @param now - The current time; pass a clock updated e.g. every minute
+ * @param position - The latest device position (e.g. from
+ *   `watchPosition`), or `null` while unknown. Compared by value.
+ * @param options - Schedule accessors, the destination's time zone,
+ *   re-route threshold, provider overrides, transit preferences and
+ *   geocoding `bias`. `bias` and preferences are compared by value; pass
+ *   stable `accessors` and providers.
+ * @returns The day, current and next items, minutes until the next
+ *   item, and the route to it with its loading/error state
+ */
+export const useLiveItinerary = (
+  itin: ItinDay[],
+  now: Date,
+  position: Coords | null,
+  {
+    accessors,
+    timeZone,
+    rerouteThreshold = DEFAULT_REROUTE_THRESHOLD_METRES,
+    geocoder,
+    bias,
+    router,
+    transit,
+    preferences,
+    offlineFallback,
+  }: UseLiveItineraryOptions = {}
+): UseLiveItineraryReturn => {
+  const nowMs = now.getTime();
+  const cursor = useMemo(
+    () => findItineraryCursor(itin, new Date(nowMs), { accessors, timeZone }),
+    [itin, nowMs, accessors, timeZone]
+  );
+
+  const targetKey = JSON.stringify(cursor?.next?.place ?? null);
+  const positionKey = JSON.stringify(position);
+  const biasKey = JSON.stringify(bias ?? null);
+  const preferencesKey = JSON.stringify(preferences ?? {});
+
+  const [request, setRequest] = useState<RouteRequest | null>(() =>
+    position ? { origin: position, targetKey } : null
+  );
+  const [routeInfo, setRouteInfo] = useState<RouteInfo | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [errorReason, setErrorReason] = useState<GeoFailureReason | null>(null);
+
+  // Re-route from the latest position when the next stop changes or the
+  // device strays from the route.
+  useEffect(() => {
+    const latest = JSON.parse(positionKey) as Coords | null;
+    if (!latest) return;
+    setRequest(current =>
+      current?.targetKey === targetKey &&
+      !(
+        routeInfo &&
+        routeInfo.coords.length > 0 &&
+        distanceToPath(latest, routeInfo.coords) > rerouteThreshold
+      )
+        ? current
+        : { origin: latest, targetKey }
+    );
+  }, [positionKey, targetKey, routeInfo, rerouteThreshold]);
+
+  const requestKey = JSON.stringify(request);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setRouteInfo(null);
+    setErrorReason(null);
+    const pending = JSON.parse(requestKey) as RouteRequest | null;
+    const target = pending
+      ? (JSON.parse(pending.targetKey) as RouteEndpoint | null)
+      : null;
+    if (!pending || target === null) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+
+    resolveTransitRoute(pending.origin, target, {
+      geocoder,
+      bias: (JSON.parse(biasKey) as GeocodeBias | null) ?? undefined,
+      router,
+      transit,
+      signal: controller.signal,
+      preferences: JSON.parse(preferencesKey) as TransitPreferences,
+      offlineFallback,
+    })
+      .then(result => {
+        if (controller.signal.aborted) return;
+        if (result.ok) {
+          setRouteInfo(result.value);
+        } else {
+          setErrorReason(result.reason);
+        }
+        setLoading(false);
+      })
+      .catch(err => {
+        // Aborts are not errors; anything else is a bug in a provider.
+        if (controller.signal.aborted) return;
+        setErrorReason(geoFailureReason(err));
+        setLoading(false);
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [
+    requestKey,
+    geocoder,
+    biasKey,
+    router,
+    transit,
+    preferencesKey,
+    offlineFallback,
+  ]);
+
+  return {
+    day: cursor?.day ?? null,
+    current: cursor?.current ?? null,
+    next: cursor?.next ?? null,
+    minutesUntilNext: cursor?.minutesUntilNext ?? null,
+    routeInfo,
+    loading,
+    error: errorReason !== null,
+    errorReason,
+  };
+};
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import {
+  GeoError,
+  type GeoResult,
+  type RouteEndpoint,
+  type RouteInfo,
+} from '../utils/geo';
+import type { GeocodeBias } from '../utils/geocoding';
+
+// --- Mocks ---
+
+const mockResolve =
+  vi.fn<
+    (
+      from: RouteEndpoint,
+      to: RouteEndpoint,
+      options: { signal?: AbortSignal; bias?: GeocodeBias }
+    ) => Promise<GeoResult<RouteInfo>>
+  >();
+
+vi.mock('../utils/geo', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/geo')>()),
+  resolveTransitRoute: (
+    from: RouteEndpoint,
+    to: RouteEndpoint,
+    options: { signal?: AbortSignal; bias?: GeocodeBias }
+  ) => mockResolve(from, to, options),
+}));
+
+const { useTransitRoute } = await import('./useTransitRoute');
+
+// --- Helpers ---
+
+const walk: RouteInfo = {
+  mode: 'walking',
+  duration: 600,
+  distance: 800,
+  coords: [],
+};
+
+describe('useTransitRoute', () => {
+  beforeEach(() => {
+    mockResolve.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('exposes the resolved route', async () => {
+    mockResolve.mockResolvedValue({ ok: true, value: walk });
+    const { result } = renderHook(() => useTransitRoute('A', 'B'));
+    expect(result.current.loading).toBe(true);
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.routeInfo).toEqual(walk);
+    expect(result.current.error).toBe(false);
+    expect(result.current.errorReason).toBeNull();
+  });
+
+  it('exposes the failure reason', async () => {
+    mockResolve.mockResolvedValue({ ok: false, reason: 'not_found' });
+    const { result } = renderHook(() => useTransitRoute('A', 'Nowhere'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.error).toBe(true);
+    expect(result.current.errorReason).toBe('not_found');
+  });
+
+  it('exposes the reason of an unexpected rejection', async () => {
+    mockResolve.mockRejectedValue(new GeoError('network'));
+    const { result } = renderHook(() => useTransitRoute('A', 'B'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.error).toBe(true);
+    expect(result.current.errorReason).toBe('network');
+  });
+
+  it('aborts the previous lookup when the endpoints change', async () => {
+    mockResolve.mockImplementation(
+      (_from, _to, { signal }) =>
+        new Promise((resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(signal.reason));
+          if (_to === 'C') resolve({ ok: true, value: walk });
+        })
+    );
+    const { result, rerender } = renderHook(
+      ({ to }) => useTransitRoute('A', to),
+      { initialProps: { to: 'B' } }
+    );
+    const firstSignal = mockResolve.mock.calls[0][2].signal;
+
+    rerender({ to: 'C' });
+    expect(firstSignal?.aborted).toBe(true);
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.error).toBe(false);
+    expect(result.current.routeInfo).toEqual(walk);
+  });
+
+  it('compares coordinate endpoints by value', async () => {
+    mockResolve.mockResolvedValue({ ok: true, value: walk });
+    const { result, rerender } = renderHook(
+      ({ lat }) => useTransitRoute({ lat, lng: 2.35 }, 'B'),
+      { initialProps: { lat: 48.85 } }
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    rerender({ lat: 48.85 });
+    expect(mockResolve).toHaveBeenCalledTimes(1);
+    expect(mockResolve.mock.calls[0][0]).toEqual({ lat: 48.85, lng: 2.35 });
+
+    rerender({ lat: 48.86 });
+    expect(mockResolve).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes the trip bias and compares it by value', async () => {
+    mockResolve.mockResolvedValue({ ok: true, value: walk });
+    const { result, rerender } = renderHook(() =>
+      useTransitRoute('A', 'B', { bias: { city: 'Paris' } })
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    rerender();
+    expect(mockResolve).toHaveBeenCalledTimes(1);
+    expect(mockResolve.mock.calls[0][2].bias).toEqual({ city: 'Paris' });
+  });
+
+  it('aborts in-flight lookups on unmount', () => {
+    mockResolve.mockReturnValue(new Promise(() => {}));
+    const { unmount } = renderHook(() => useTransitRoute('A', 'B'));
+    unmount();
+    expect(mockResolve.mock.calls[0][2].signal?.aborted).toBe(true);
+  });
+});
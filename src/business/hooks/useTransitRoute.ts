@@ -1,5 +1,21 @@
-import { useEffect, useRef, useState } from 'react';
-import { resolveTransitRoute, type RouteInfo } from '../utils/geo';
+import { useEffect, useState } from 'react';
+import type { GeocodeBias } from '../utils/geocoding';
+import {
+  type GeoFailureReason,
+  geoFailureReason,
+  resolveTransitRoute,
+  type ResolveTransitRouteOptions,
+  type RouteEndpoint,
+  type RouteInfo,
+  type TransitPreferences,
+} from '../utils/geo';
+
+/**
+ * Options for the {@link useTransitRoute} hook.
+ *
+ * Defaults come from the app-wide `configureGeo` configuration.
+ */
+export type UseTransitRouteOptions = Omit<ResolveTransitRouteOptions, 'signal'>;
 
 /**
  * Return type for the {@link useTransitRoute} hook.
@@ -11,47 +27,110 @@ export interface UseTransitRouteReturn {
   loading: boolean;
   /** Whether route resolution failed. */
   error: boolean;
+  /**
+   * Why route resolution failed, or `null` while loading / on success.
+   * Use `isRetryableGeoFailure` to decide whether offering a retry makes sense.
+   */
+  errorReason: GeoFailureReason | null;
 }
 
 /**
- * Hook that resolves a transit route between two named locations.
+ * Hook that resolves a transit route between two locations, given as
+ * place names or coordinates (e.g. the device's current position).
+ *
+ * Geocodes named locations with the configured provider, routes each
+ * allowed mode (walking, cycling, driving, transit), and returns the best
+ * option according to `options.preferences` (by default walking if under
+ * 30 minutes). `routeInfo.alternatives` lists the other routed modes.
  *
- * Geocodes both locations, fetches walking and driving routes,
- * and returns the best option. Prefers walking if under 30 minutes.
+ * In-flight lookups are aborted when `from`/`to` change or the component
+ * unmounts; aborted lookups never surface as errors. Coordinates are
+ * compared by value, so a position object recreated on every render does
+ * not refetch.
  *
- * @param fromName - Origin place name
- * @param toName - Destination place name
- * @returns Route info, loading state, and error flag
+ * @param from - Origin place name or coordinates
+ * @param to - Destination place name or coordinates
+ * @param options - Optional provider overrides, departure time, transit
+ *   preferences and geocoding `bias`. Pass the same trip-level bias (e.g.
+ *   the destination city) for every leg so all of them resolve in the same
+ *   area. `bias`, preferences and `departAt` are compared by value, so
+ *   inline objects are fine.
+ * @returns Route info, loading state, and error flag with its reason
  */
 export const useTransitRoute = (
-  fromName: string,
-  toName: string
+  from: RouteEndpoint,
+  to: RouteEndpoint,
+  {
+    geocoder,
+    bias,
+    router,
+    transit,
+    departAt,
+    preferences,
+    offlineFallback,
+  }: UseTransitRouteOptions = {}
 ): UseTransitRouteReturn => {
   const [routeInfo, setRouteInfo] = useState<RouteInfo | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(false);
-  const cancelledRef = useRef(false);
+  const [errorReason, setErrorReason] = useState<GeoFailureReason | null>(null);
+
+  // Compared by value so callers can pass these inline without refetching
+  const fromKey = JSON.stringify(from);
+  const toKey = JSON.stringify(to);
+  const biasKey = JSON.stringify(bias ?? null);
+  const preferencesKey = JSON.stringify(preferences ?? {});
+  const departAtMs = departAt?.getTime();
 
   useEffect(() => {
-    cancelledRef.current = false;
+    const controller = new AbortController();
     setLoading(true);
-    setError(false);
+    setErrorReason(null);
     setRouteInfo(null);
 
-    resolveTransitRoute(fromName, toName).then(result => {
-      if (cancelledRef.current) return;
-      if (result) {
-        setRouteInfo(result);
-      } else {
-        setError(true);
+    resolveTransitRoute(
+      JSON.parse(fromKey) as RouteEndpoint,
+      JSON.parse(toKey) as RouteEndpoint,
+      {
+        geocoder,
+        bias: (JSON.parse(biasKey) as GeocodeBias | null) ?? undefined,
+        router,
+        transit,
+        departAt: departAtMs === undefined ? undefined : new Date(departAtMs),
+        signal: controller.signal,
+        preferences: JSON.parse(preferencesKey) as TransitPreferences,
+        offlineFallback,
       }
-      setLoading(false);
-    });
+    )
+      .then(result => {
+        if (controller.signal.aborted) return;
+        if (result.ok) {
+          setRouteInfo(result.value);
+        } else {
+          setErrorReason(result.reason);
+        }
+        setLoading(false);
+      })
+      .catch(err => {
+        // Aborts are not errors; anything else is a bug in a provider.
+        if (controller.signal.aborted) return;
+        setErrorReason(geoFailureReason(err));
+        setLoading(false);
+      });
 
     return () => {
-      cancelledRef.current = true;
+      controller.abort();
     };
-  }, [fromName, toName]);
+  }, [
+    fromKey,
+    toKey,
+    geocoder,
+    biasKey,
+    router,
+    transit,
+    departAtMs,
+    preferencesKey,
+    offlineFallback,
+  ]);
 
-  return { routeInfo, loading, error };
+  return { routeInfo, loading, error: errorReason !== null, errorReason };
 };
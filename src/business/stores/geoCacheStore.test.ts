@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_GEOCODE_CACHE_EXPIRATION_MS,
+  geocodeCacheKey,
+  routeCacheKey,
+  useGeoCacheStore,
+} from './geoCacheStore';
+
+const paris = { lat: 48.8566, lng: 2.3522 };
+const route = { duration: 60, distance: 100, coords: [] };
+
+describe('geoCacheStore', () => {
+  beforeEach(() => {
+    useGeoCacheStore.getState().clearAll();
+    useGeoCacheStore.getState().setMaxEntries(500);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('cache keys', () => {
+    it('normalizes geocode queries', () => {
+      expect(geocodeCacheKey('p', '  Eiffel   Tower ')).toBe(
+        geocodeCacheKey('p', 'eiffel tower')
+      );
+    });
+
+    it('scopes keys by provider', () => {
+      expect(geocodeCacheKey('a', 'x')).not.toBe(geocodeCacheKey('b', 'x'));
+    });
+
+    it('scopes geocode keys by bias, ignoring country code order', () => {
+      expect(geocodeCacheKey('p', 'x', { near: paris })).not.toBe(
+        geocodeCacheKey('p', 'x')
+      );
+      expect(geocodeCacheKey('p', 'x', { countryCodes: ['FR', 'be'] })).toBe(
+        geocodeCacheKey('p', 'x', { countryCodes: ['be', 'fr'] })
+      );
+    });
+
+    it('rounds route coords and includes the profile', () => {
+      const nearby = { lat: 48.856601, lng: 2.352201 };
+      expect(routeCacheKey('p', paris, paris, 'foot')).toBe(
+        routeCacheKey('p', nearby, nearby, 'foot')
+      );
+      expect(routeCacheKey('p', paris, paris, 'foot')).not.toBe(
+        routeCacheKey('p', paris, paris, 'car')
+      );
+    });
+  });
+
+  it('stores and returns geocodes, including null results', () => {
+    const store = useGeoCacheStore.getState();
+    store.setGeocode('a', paris);
+    store.setGeocode('b', null);
+    expect(store.getGeocode('a')?.value).toEqual(paris);
+    expect(store.getGeocode('b')).toEqual(
+      expect.objectContaining({ value: null })
+    );
+    expect(store.getGeocode('c')).toBeUndefined();
+  });
+
+  it('expires entries after the TTL', () => {
+    vi.useFakeTimers();
+    const store = useGeoCacheStore.getState();
+    store.setGeocode('a', paris);
+    vi.advanceTimersByTime(DEFAULT_GEOCODE_CACHE_EXPIRATION_MS + 1);
+    expect(store.getGeocode('a')).toBeUndefined();
+    expect(store.getGeocode('a', Infinity)).toBeDefined();
+  });
+
+  it('evicts the least recently used entry beyond maxEntries', () => {
+    vi.useFakeTimers();
+    const store = useGeoCacheStore.getState();
+    store.setMaxEntries(2);
+    store.setRoute('a', route);
+    vi.advanceTimersByTime(1);
+    store.setRoute('b', route);
+    vi.advanceTimersByTime(1);
+    store.getRoute('a');
+    vi.advanceTimersByTime(1);
+    store.setRoute('c', route);
+    expect(Object.keys(useGeoCacheStore.getState().routes).sort()).toEqual([
+      'a',
+      'c',
+    ]);
+  });
+
+  it('does not update the store on reads', () => {
+    const store = useGeoCacheStore.getState();
+    store.setGeocode('a', paris);
+    const listener = vi.fn();
+    const unsubscribe = useGeoCacheStore.subscribe(listener);
+    store.getGeocode('a');
+    store.getGeocode('missing');
+    unsubscribe();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('purges expired entries', () => {
+    vi.useFakeTimers();
+    const store = useGeoCacheStore.getState();
+    store.setGeocode('old', paris);
+    vi.advanceTimersByTime(1000);
+    store.setGeocode('new', paris);
+    store.purgeExpired(500);
+    expect(Object.keys(useGeoCacheStore.getState().geocodes)).toEqual(['new']);
+  });
+
+  it('shares in-flight requests with the same key', async () => {
+    const store = useGeoCacheStore.getState();
+    let resolve!: (value: number) => void;
+    const fn = vi.fn(() => new Promise<number>(r => (resolve = r)));
+    const first = store.dedupe('k', fn);
+    const second = store.dedupe('k', fn);
+    resolve(42);
+    expect(await Promise.all([first, second])).toEqual([42, 42]);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    const third = store.dedupe('k', fn);
+    resolve(7);
+    expect(await third).toBe(7);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a shared request alive while another caller still waits', async () => {
+    const store = useGeoCacheStore.getState();
+    let sharedSignal!: AbortSignal;
+    let resolve!: (value: number) => void;
+    const fn = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return new Promise<number>(r => (resolve = r));
+    };
+    const a = new AbortController();
+    const b = new AbortController();
+    const first = store.dedupe('k', fn, a.signal);
+    const second = store.dedupe('k', fn, b.signal);
+
+    a.abort();
+    await expect(first).rejects.toBeDefined();
+    expect(sharedSignal.aborted).toBe(false);
+
+    resolve(1);
+    expect(await second).toBe(1);
+  });
+
+  it('aborts the shared request once every caller has aborted', async () => {
+    const store = useGeoCacheStore.getState();
+    let sharedSignal!: AbortSignal;
+    const fn = vi.fn((signal: AbortSignal) => {
+      sharedSignal = signal;
+      return new Promise<number>(() => {});
+    });
+    const a = new AbortController();
+    const pending = store.dedupe('k', fn, a.signal);
+    a.abort();
+    await expect(pending).rejects.toBeDefined();
+    expect(sharedSignal.aborted).toBe(true);
+
+    store.dedupe('k', fn);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
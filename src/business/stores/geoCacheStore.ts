@@ -0,0 +1,338 @@
+import { create } from 'zustand';
+import type { Coords } from '../utils/geo';
+import {
+  type GeocodeBias,
+  type GeocodeCandidate,
+  normalizeGeocodeQuery,
+} from '../utils/geocoding';
+import type { RouteResult, RoutingProfile } from '../utils/routing';
+
+/**
+ * Default expiration for geocode results in milliseconds (24 hours).
+ * Places rarely move, so lookups can be reused for a long time.
+ */
+export const DEFAULT_GEOCODE_CACHE_EXPIRATION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Default expiration for route results in milliseconds (1 hour).
+ */
+export const DEFAULT_ROUTE_CACHE_EXPIRATION_MS = 60 * 60 * 1000;
+
+/**
+ * Default maximum number of entries kept per table before the least
+ * recently used entries are evicted.
+ */
+export const DEFAULT_GEO_CACHE_MAX_ENTRIES = 500;
+
+export interface GeoCacheEntry<T> {
+  /** The cached result; `null` records a definitive "not found" / "no route". */
+  value: T | null;
+  cachedAt: number;
+}
+
+const coordKey = ({ lat, lng }: Coords): string =>
+  `${lat.toFixed(5)},${lng.toFixed(5)}`;
+
+const biasKey = ({ city, countryCodes, viewbox, near }: GeocodeBias): string =>
+  [
+    city ? normalizeGeocodeQuery(city) : '',
+    (countryCodes ?? [])
+      .map(code => code.toLowerCase())
+      .sort()
+      .join(','),
+    viewbox
+      ? [viewbox.south, viewbox.west, viewbox.north, viewbox.east].join(',')
+      : '',
+    near ? coordKey(near) : '',
+  ].join('|');
+
+/**
+ * Builds the cache key for a geocode lookup.
+ * Scoped by provider name so different backends never share results, and
+ * by bias so the same name in different trips resolves independently.
+ */
+export const geocodeCacheKey = (
+  providerName: string,
+  query: string,
+  bias?: GeocodeBias
+): string =>
+  bias
+    ? `${providerName}::${normalizeGeocodeQuery(query)}::${biasKey(bias)}`
+    : `${providerName}::${normalizeGeocodeQuery(query)}`;
+
+/**
+ * Builds the cache key for a reverse geocode lookup. Coordinates are
+ * rounded to 5 decimals (about 1 m).
+ */
+export const reverseGeocodeCacheKey = (
+  providerName: string,
+  coords: Coords
+): string => `${providerName}::${coordKey(coords)}`;
+
+/**
+ * Builds the cache key for a route lookup. Coordinates are rounded to
+ * 5 decimals (about 1 m) so near-identical requests share an entry.
+ */
+export const routeCacheKey = (
+  providerName: string,
+  from: Coords,
+  to: Coords,
+  profile: RoutingProfile
+): string => `${providerName}::${profile}::${coordKey(from)};${coordKey(to)}`;
+
+export interface GeoCacheStoreState {
+  /** Geocode results keyed by {@link geocodeCacheKey}. */
+  geocodes: Record<string, GeoCacheEntry<Coords>>;
+  /** Reverse geocode results keyed by {@link reverseGeocodeCacheKey}. */
+  places: Record<string, GeoCacheEntry<GeocodeCandidate>>;
+  /** Route results keyed by {@link routeCacheKey}. */
+  routes: Record<string, GeoCacheEntry<RouteResult>>;
+  /**
+   * Maximum entries per table; writes evict the least recently used
+   * entries beyond it.
+   */
+  maxEntries: number;
+
+  setGeocode: (key: string, value: Coords | null) => void;
+  /**
+   * Returns the fresh entry for `key`. The read counts as a use for
+   * eviction but does not update the store, so subscribers do not
+   * re-render.
+   */
+  getGeocode: (
+    key: string,
+    maxAge?: number
+  ) => GeoCacheEntry<Coords> | undefined;
+
+  setPlace: (key: string, value: GeocodeCandidate | null) => void;
+  /**
+   * Returns the fresh entry for `key`. The read counts as a use for
+   * eviction but does not update the store, so subscribers do not
+   * re-render.
+   */
+  getPlace: (
+    key: string,
+    maxAge?: number
+  ) => GeoCacheEntry<GeocodeCandidate> | undefined;
+
+  setRoute: (key: string, value: RouteResult | null) => void;
+  /**
+   * Returns the fresh entry for `key`. The read counts as a use for
+   * eviction but does not update the store, so subscribers do not
+   * re-render.
+   */
+  getRoute: (
+    key: string,
+    maxAge?: number
+  ) => GeoCacheEntry<RouteResult> | undefined;
+
+  /**
+   * Runs `fn` unless a request with the same key is already in flight, in
+   * which case the pending promise is shared.
+   *
+   * Each caller may pass its own `signal`: an aborting caller is rejected
+   * with the abort reason right away, and the `signal` handed to `fn` only
+   * aborts once every caller waiting on the request has aborted.
+   */
+  dedupe: <T>(
+    key: string,
+    fn: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ) => Promise<T>;
+
+  setMaxEntries: (maxEntries: number) => void;
+  purgeExpired: (geocodeMaxAge?: number, routeMaxAge?: number) => void;
+  clearAll: () => void;
+}
+
+const isExpired = <T>(entry: GeoCacheEntry<T>, maxAge: number): boolean =>
+  Date.now() - entry.cachedAt > maxAge;
+
+/**
+ * Keys of a table from least to most recently used. Kept outside the
+ * store state so that reads can record a use without a store update.
+ */
+type Recency = Set<string>;
+
+const markUsed = (recency: Recency, key: string): void => {
+  recency.delete(key);
+  recency.add(key);
+};
+
+/**
+ * Inserts an entry and evicts the least recently used ones beyond `max`.
+ */
+const withEntry = <T>(
+  table: Record<string, GeoCacheEntry<T>>,
+  recency: Recency,
+  key: string,
+  value: T | null,
+  max: number
+): Record<string, GeoCacheEntry<T>> => {
+  const next = { ...table, [key]: { value, cachedAt: Date.now() } };
+  markUsed(recency, key);
+  const keys = Object.keys(next);
+  if (keys.length <= max) return next;
+  // Entries never used through the store (e.g. set with `setState`) go first
+  [...keys.filter(k => !recency.has(k)), ...recency]
+    .slice(0, keys.length - max)
+    .forEach(k => {
+      delete next[k];
+      recency.delete(k);
+    });
+  return next;
+};
+
+/** Returns the fresh entry for `key`, recording the read as a use. */
+const freshEntry = <T>(
+  table: Record<string, GeoCacheEntry<T>>,
+  recency: Recency,
+  key: string,
+  maxAge: number
+): GeoCacheEntry<T> | undefined => {
+  const entry = table[key];
+  if (!entry || isExpired(entry, maxAge)) return undefined;
+  markUsed(recency, key);
+  return entry;
+};
+
+const withoutExpired = <T>(
+  table: Record<string, GeoCacheEntry<T>>,
+  recency: Recency,
+  maxAge: number
+): Record<string, GeoCacheEntry<T>> => {
+  const next: Record<string, GeoCacheEntry<T>> = {};
+  for (const [key, entry] of Object.entries(table)) {
+    if (isExpired(entry, maxAge)) recency.delete(key);
+    else next[key] = entry;
+  }
+  return next;
+};
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Number of callers still waiting on the request. */
+  waiters: number;
+}
+
+/**
+ * Zustand store caching geocode and route results for the geo utilities,
+ * with TTL expiry, LRU bounds and in-flight request deduplication.
+ * In-memory only; no persistence.
+ */
+export const useGeoCacheStore = create<GeoCacheStoreState>((set, get) => {
+  const inFlight = new Map<string, InFlightRequest>();
+  const geocodesUsed: Recency = new Set();
+  const placesUsed: Recency = new Set();
+  const routesUsed: Recency = new Set();
+
+  return {
+    geocodes: {},
+    places: {},
+    routes: {},
+    maxEntries: DEFAULT_GEO_CACHE_MAX_ENTRIES,
+
+    setGeocode: (key, value) =>
+      set(state => ({
+        geocodes: withEntry(
+          state.geocodes,
+          geocodesUsed,
+          key,
+          value,
+          state.maxEntries
+        ),
+      })),
+
+    getGeocode: (key, maxAge = DEFAULT_GEOCODE_CACHE_EXPIRATION_MS) =>
+      freshEntry(get().geocodes, geocodesUsed, key, maxAge),
+
+    setPlace: (key, value) =>
+      set(state => ({
+        places: withEntry(
+          state.places,
+          placesUsed,
+          key,
+          value,
+          state.maxEntries
+        ),
+      })),
+
+    getPlace: (key, maxAge = DEFAULT_GEOCODE_CACHE_EXPIRATION_MS) =>
+      freshEntry(get().places, placesUsed, key, maxAge),
+
+    setRoute: (key, value) =>
+      set(state => ({
+        routes: withEntry(
+          state.routes,
+          routesUsed,
+          key,
+          value,
+          state.maxEntries
+        ),
+      })),
+
+    getRoute: (key, maxAge = DEFAULT_ROUTE_CACHE_EXPIRATION_MS) =>
+      freshEntry(get().routes, routesUsed, key, maxAge),
+
+    dedupe: <T>(
+      key: string,
+      fn: (signal: AbortSignal) => Promise<T>,
+      signal?: AbortSignal
+    ): Promise<T> => {
+      if (signal?.aborted) return Promise.reject(signal.reason);
+      let request = inFlight.get(key);
+      if (!request) {
+        const controller = new AbortController();
+        const created: InFlightRequest = {
+          controller,
+          waiters: 0,
+          promise: fn(controller.signal).finally(() => {
+            if (inFlight.get(key) === created) inFlight.delete(key);
+          }),
+        };
+        inFlight.set(key, created);
+        request = created;
+      }
+      const current = request;
+      const promise = current.promise as Promise<T>;
+      current.waiters++;
+      if (!signal) return promise;
+
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+          current.waiters--;
+          if (current.waiters === 0) {
+            current.controller.abort(signal.reason);
+            if (inFlight.get(key) === current) inFlight.delete(key);
+          }
+          reject(signal.reason);
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise
+          .then(resolve, reject)
+          .finally(() => signal.removeEventListener('abort', onAbort));
+      });
+    },
+
+    setMaxEntries: maxEntries => set({ maxEntries }),
+
+    purgeExpired: (
+      geocodeMaxAge = DEFAULT_GEOCODE_CACHE_EXPIRATION_MS,
+      routeMaxAge = DEFAULT_ROUTE_CACHE_EXPIRATION_MS
+    ) =>
+      set(state => ({
+        geocodes: withoutExpired(state.geocodes, geocodesUsed, geocodeMaxAge),
+        places: withoutExpired(state.places, placesUsed, geocodeMaxAge),
+        routes: withoutExpired(state.routes, routesUsed, routeMaxAge),
+      })),
+
+    clearAll: () => {
+      inFlight.clear();
+      geocodesUsed.clear();
+      placesUsed.clear();
+      routesUsed.clear();
+      set({ geocodes: {}, places: {}, routes: {} });
+    },
+  };
+});
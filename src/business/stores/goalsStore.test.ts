@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type Goal, useGoalsStore } from './goalsStore';
+
+const makeGoal = (overrides: Partial<Goal> = {}): Goal => ({
+  id: 'goal-1',
+  target: 500,
+  period: 'month',
+  startDate: '2025-01-01',
+  ...overrides,
+});
+
+describe('goalsStore', () => {
+  beforeEach(() => {
+    useGoalsStore.getState().clearAll();
+  });
+
+  describe('getGoals', () => {
+    it('should return an empty array for unknown user', () => {
+      expect(useGoalsStore.getState().getGoals('unknown')).toEqual([]);
+    });
+
+    it('should return the same empty array for every unknown user', () => {
+      const { getGoals } = useGoalsStore.getState();
+      expect(getGoals('a')).toBe(getGoals('b'));
+    });
+  });
+
+  describe('setGoals', () => {
+    it('should replace the goals of a user only', () => {
+      const { setGoals } = useGoalsStore.getState();
+      setGoals('user-1', [makeGoal()]);
+      setGoals('user-2', [makeGoal({ id: 'goal-2' })]);
+      setGoals('user-1', [makeGoal({ id: 'goal-3' })]);
+
+      const { getGoals } = useGoalsStore.getState();
+      expect(getGoals('user-1').map(g => g.id)).toEqual(['goal-3']);
+      expect(getGoals('user-2').map(g => g.id)).toEqual(['goal-2']);
+    });
+  });
+
+  describe('addGoal', () => {
+    it('should append goals', () => {
+      useGoalsStore.getState().addGoal('user-1', makeGoal());
+      useGoalsStore.getState().addGoal('user-1', makeGoal({ id: 'goal-2' }));
+      expect(
+        useGoalsStore
+          .getState()
+          .getGoals('user-1')
+          .map(g => g.id)
+      ).toEqual(['goal-1', 'goal-2']);
+    });
+  });
+
+  describe('updateGoal', () => {
+    it('should replace a goal by ID', () => {
+      useGoalsStore.getState().setGoals('user-1', [makeGoal()]);
+      useGoalsStore
+        .getState()
+        .updateGoal('user-1', 'goal-1', makeGoal({ target: 800 }));
+      expect(useGoalsStore.getState().getGoals('user-1')[0].target).toBe(800);
+    });
+
+    it('should do nothing for a user without goals', () => {
+      useGoalsStore.getState().updateGoal('user-1', 'goal-1', makeGoal());
+      expect(useGoalsStore.getState().goals).toEqual({});
+    });
+  });
+
+  describe('removeGoal', () => {
+    it('should remove a goal by ID', () => {
+      useGoalsStore
+        .getState()
+        .setGoals('user-1', [makeGoal(), makeGoal({ id: 'goal-2' })]);
+      useGoalsStore.getState().removeGoal('user-1', 'goal-1');
+      expect(
+        useGoalsStore
+          .getState()
+          .getGoals('user-1')
+          .map(g => g.id)
+      ).toEqual(['goal-2']);
+    });
+
+    it('should do nothing for a user without goals', () => {
+      useGoalsStore.getState().removeGoal('user-1', 'goal-1');
+      expect(useGoalsStore.getState().goals).toEqual({});
+    });
+  });
+
+  describe('clearAll', () => {
+    it('should clear the goals of all users', () => {
+      useGoalsStore.getState().setGoals('user-1', [makeGoal()]);
+      useGoalsStore.getState().setGoals('user-2', [makeGoal()]);
+      useGoalsStore.getState().clearAll();
+      expect(useGoalsStore.getState().goals).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { create } from 'zustand';
+import type { HistoryGranularity } from '../utils/historySeries';
+
+/**
+ * How often a goal's target resets. Periods follow the calendar: weeks
+ * start on Monday, months and years on their first day.
+ */
+export type GoalPeriod = HistoryGranularity;
+
+/**
+ * A target for the sum of a user's history values per period, e.g.
+ * "500 per month".
+ *
+ * @example
+ * ```typescript
+ * const goal: Goal = {
+ *   id: 'goal-1',
+ *   target: 500,
+ *   period: 'month',
+ *   startDate: '2025-01-15',
+ * };
+ * ```
+ */
+export interface Goal {
+  /** Unique identifier for this goal. */
+  id: string;
+  /** The sum of history values to reach in each period. */
+  target: number;
+  /** How often the target resets. */
+  period: GoalPeriod;
+  /**
+   * First day the goal applies, as `YYYY-MM-DD`. Histories before it do
+   * not count, so the first period may be shorter than the others.
+   */
+  startDate: string;
+  /** Optional display name, e.g. "Monthly distance". */
+  label?: string;
+}
+
+/**
+ * State shape and actions for the goals Zustand store.
+ *
+ * Goals are keyed by `userId` so that switching users shows isolated
+ * data. The store is in-memory only -- goals do not persist across page
+ * refreshes or app restarts.
+ *
+ * @example
+ * ```typescript
+ * import { useGoalsStore } from '@sudobility/superguide_lib';
+ *
+ * // Read goals in a component
+ * const goals = useGoalsStore(state => state.getGoals('user-1'));
+ *
+ * // Write outside of React
+ * useGoalsStore.getState().addGoal('user-1', goal);
+ * ```
+ */
+export interface GoalsStoreState {
+  /** Goals keyed by user ID. */
+  goals: Record<string, Goal[]>;
+
+  /**
+   * Sets (replaces) the goals of a user.
+   *
+   * @param userId - The user's unique identifier
+   * @param goals - The full list of goals
+   */
+  setGoals: (userId: string, goals: Goal[]) => void;
+
+  /**
+   * Retrieves the goals of a user.
+   *
+   * @param userId - The user's unique identifier
+   * @returns The goals, or an empty array if the user has none
+   */
+  getGoals: (userId: string) => Goal[];
+
+  /**
+   * Appends a goal to a user's goals.
+   *
+   * @param userId - The user's unique identifier
+   * @param goal - The goal to append
+   */
+  addGoal: (userId: string, goal: Goal) => void;
+
+  /**
+   * Replaces a specific goal by ID.
+   * Does nothing if the user has no goals.
+   *
+   * @param userId - The user's unique identifier
+   * @param goalId - The ID of the goal to replace
+   * @param goal - The updated goal
+   */
+  updateGoal: (userId: string, goalId: string, goal: Goal) => void;
+
+  /**
+   * Removes a specific goal by ID.
+   * Does nothing if the user has no goals.
+   *
+   * @param userId - The user's unique identifier
+   * @param goalId - The ID of the goal to remove
+   */
+  removeGoal: (userId: string, goalId: string) => void;
+
+  /**
+   * Clears the goals of all users.
+   */
+  clearAll: () => void;
+}
+
+const NO_GOALS: Goal[] = [];
+
+/**
+ * Zustand store holding each user's goals.
+ *
+ * Operations: `set`, `get`, `add`, `update`, `remove`, `clearAll`.
+ * Keyed by user ID for multi-user support. In-memory only -- goals are
+ * lost on page refresh or app restart.
+ *
+ * @example
+ * ```typescript
+ * import { useGoalsStore } from '@sudobility/superguide_lib';
+ *
+ * const store = useGoalsStore.getState();
+ * store.addGoal('user-1', {
+ *   id: 'goal-1',
+ *   target: 500,
+ *   period: 'month',
+ *   startDate: '2025-01-01',
+ * });
+ * ```
+ */
+export const useGoalsStore = create<GoalsStoreState>((set, get) => ({
+  goals: {},
+
+  setGoals: (userId: string, goals: Goal[]) =>
+    set(state => ({
+      goals: { ...state.goals, [userId]: goals },
+    })),
+
+  getGoals: (userId: string) => get().goals[userId] ?? NO_GOALS,
+
+  addGoal: (userId: string, goal: Goal) =>
+    set(state => ({
+      goals: {
+        ...state.goals,
+        [userId]: [...(state.goals[userId] ?? []), goal],
+      },
+    })),
+
+  updateGoal: (userId: string, goalId: string, goal: Goal) =>
+    set(state => {
+      const existing = state.goals[userId];
+      if (!existing) return state;
+      return {
+        goals: {
+          ...state.goals,
+          [userId]: existing.map(g => (g.id === goalId ? goal : g)),
+        },
+      };
+    }),
+
+  removeGoal: (userId: string, goalId: string) =>
+    set(state => {
+      const existing = state.goals[userId];
+      if (!existing) return state;
+      return {
+        goals: {
+          ...state.goals,
+          [userId]: existing.filter(g => g.id !== goalId),
+        },
+      };
+    }),
+
+  clearAll: () => set({ goals: {} }),
+}));
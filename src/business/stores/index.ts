@@ -4,6 +4,12 @@ export {
   type HistoriesCacheEntry,
   type HistoriesStoreState,
 } from './historiesStore';
+export {
+  useGoalsStore,
+  type Goal,
+  type GoalPeriod,
+  type GoalsStoreState,
+} from './goalsStore';
 export {
   useTripsStore,
   DEFAULT_TRIP_CACHE_EXPIRATION_MS,
@@ -17,3 +23,14 @@ export {
   type RestaurantsCacheEntry,
   type RestaurantsStoreState,
 } from './restaurantsStore';
+export {
+  useGeoCacheStore,
+  DEFAULT_GEOCODE_CACHE_EXPIRATION_MS,
+  DEFAULT_ROUTE_CACHE_EXPIRATION_MS,
+  DEFAULT_GEO_CACHE_MAX_ENTRIES,
+  geocodeCacheKey,
+  reverseGeocodeCacheKey,
+  routeCacheKey,
+  type GeoCacheEntry,
+  type GeoCacheStoreState,
+} from './geoCacheStore';
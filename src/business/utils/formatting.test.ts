@@ -0,0 +1,258 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  configureFormatting,
+  createFormatter,
+  formatDirections,
+  formatDistance,
+  formatDuration,
+  formatHour,
+  formatRelativeTime,
+  formatRouteSummary,
+  formatStepInstruction,
+  formatTime12,
+  formatTimeRange,
+  parseTime,
+  resetFormattingConfig,
+} from './formatting';
+
+// Intl output may use non-breaking spaces depending on the ICU version
+const plain = (text: string): string => text.replace(/\s/g, ' ');
+
+describe('createFormatter', () => {
+  it('formats in US English with imperial units and a 12-hour clock', () => {
+    const us = createFormatter({ locale: 'en-US' });
+    expect(us).toMatchObject({ units: 'imperial', clock: '12h' });
+    expect(plain(us.formatDuration(30))).toBe('< 1 min');
+    expect(plain(us.formatDuration(90))).toBe('2 min');
+    expect(plain(us.formatDuration(3700))).toBe('1 hr 2 min');
+    expect(plain(us.formatDistance(100))).toBe('328 ft');
+    expect(plain(us.formatDistance(5000))).toBe('3.1 mi');
+    expect(plain(us.formatTime('14:30'))).toBe('2:30 PM');
+    expect(plain(us.formatHour(0))).toBe('12 AM');
+    expect(plain(us.formatHour(12))).toBe('12 PM');
+  });
+
+  it('picks metric units and a 24-hour clock for European locales', () => {
+    const de = createFormatter({ locale: 'de-DE' });
+    expect(de).toMatchObject({ units: 'metric', clock: '24h' });
+    expect(plain(de.formatDistance(850.4))).toBe('850 m');
+    expect(plain(de.formatDistance(2500))).toBe('2,5 km');
+    expect(plain(de.formatTime('09:05'))).toBe('09:05');
+    expect(plain(de.formatHour(14))).toBe('14:00');
+  });
+
+  it('lets units and clock override the locale', () => {
+    const custom = createFormatter({
+      locale: 'en-US',
+      units: 'metric',
+      clock: '24h',
+    });
+    expect(plain(custom.formatDistance(2500))).toBe('2.5 km');
+    expect(plain(custom.formatTime('14:30'))).toBe('14:30');
+    expect(plain(custom.formatHour(0))).toBe('00:00');
+  });
+});
+
+describe('configureFormatting', () => {
+  afterEach(() => {
+    resetFormattingConfig();
+  });
+
+  it('applies to the module-level functions', () => {
+    configureFormatting({ locale: 'fr-FR' });
+    expect(plain(formatDistance(2500))).toBe('2,5 km');
+    expect(plain(formatTime12('14:30'))).toBe('14:30');
+    expect(plain(formatHour(9))).toBe('09:00');
+    expect(plain(formatDuration(3600))).toBe('1 h');
+  });
+
+  it('merges with the current configuration', () => {
+    configureFormatting({ locale: 'en-US' });
+    configureFormatting({ clock: '24h' });
+    expect(plain(formatTime12('14:30'))).toBe('14:30');
+    expect(plain(formatDistance(5000))).toBe('3.1 mi');
+  });
+});
+
+describe('time formatting', () => {
+  afterEach(() => {
+    resetFormattingConfig();
+  });
+
+  it('parses the forms found in generated schedules', () => {
+    expect(parseTime('14:30')).toBe(14.5);
+    expect(parseTime('9am')).toBe(9);
+    expect(parseTime('noon')).toBe(12);
+    expect(parseTime('25:00')).toBeNaN();
+  });
+
+  it('formats valid times and leaves invalid ones as they are', () => {
+    configureFormatting({ locale: 'en-US' });
+    expect(plain(formatTime12('14h30'))).toBe('2:30 PM');
+    expect(plain(formatTime12({ hour: 9, minute: 5 }))).toBe('9:05 AM');
+    expect(formatTime12('25:00')).toBe('25:00');
+    expect(plain(formatTimeRange('9-11:30am'))).toBe('9:00 AM – 11:30 AM');
+    expect(formatTimeRange('all day')).toBe('all day');
+    expect(plain(formatHour(25))).toBe('1 AM');
+  });
+});
+
+describe('formatRelativeTime', () => {
+  const now = Date.UTC(2024, 5, 1, 12, 0);
+  const MINUTE = 60 * 1000;
+
+  afterEach(() => {
+    resetFormattingConfig();
+  });
+
+  it('picks the unit by age', () => {
+    configureFormatting({ locale: 'en-US' });
+    expect(formatRelativeTime(now - 20 * 1000, now)).toBe('now');
+    expect(formatRelativeTime(now - 4 * MINUTE, now)).toBe('4 minutes ago');
+    expect(formatRelativeTime(now - 3 * 60 * MINUTE, now)).toBe('3 hours ago');
+    expect(formatRelativeTime(now - 24 * 60 * MINUTE, now)).toBe('yesterday');
+    expect(formatRelativeTime(new Date(now + 10 * MINUTE), now)).toBe(
+      'in 10 minutes'
+    );
+  });
+
+  it('uses the configured locale', () => {
+    configureFormatting({ locale: 'de-DE' });
+    expect(formatRelativeTime(now - 4 * MINUTE, now)).toBe('vor 4 Minuten');
+  });
+});
+
+describe('route wording', () => {
+  afterEach(() => {
+    resetFormattingConfig();
+  });
+
+  const walk = { mode: 'walking' as const, duration: 600 };
+  const transit = {
+    mode: 'transit' as const,
+    duration: 1500,
+    segments: [
+      {
+        type: 'walk' as const,
+        mode: 'walking' as const,
+        duration: 120,
+        distance: 150,
+        wait: 0,
+        coords: [],
+      },
+      {
+        type: 'ride' as const,
+        mode: 'transit' as const,
+        duration: 1380,
+        distance: 6000,
+        wait: 60,
+        coords: [],
+        line: { name: 'RER B' },
+      },
+    ],
+  };
+  const steps = [
+    { maneuver: 'depart' as const, name: 'Rue de Rivoli', distance: 300 },
+    {
+      maneuver: 'turn' as const,
+      modifier: 'left' as const,
+      name: 'Rue du Louvre',
+      distance: 900,
+    },
+    { maneuver: 'arrive' as const, name: '', distance: 0 },
+  ];
+
+  it('summarizes routes in English', () => {
+    configureFormatting({ locale: 'en-US' });
+    expect(plain(formatRouteSummary(walk))).toBe('10 min walk');
+    expect(plain(formatRouteSummary({ ...walk, estimated: true }))).toBe(
+      '~10 min walk'
+    );
+    expect(plain(formatRouteSummary({ mode: 'cycling', duration: 480 }))).toBe(
+      '8 min by bike'
+    );
+    expect(plain(formatRouteSummary({ mode: 'driving', duration: 900 }))).toBe(
+      '15 min drive'
+    );
+    expect(plain(formatRouteSummary(transit))).toBe(
+      '25 min by transit (RER B)'
+    );
+  });
+
+  it('formats steps in English', () => {
+    configureFormatting({ locale: 'en-US' });
+    expect(
+      formatStepInstruction({
+        maneuver: 'turn',
+        modifier: 'slight right',
+        name: 'Main St',
+      })
+    ).toBe('Turn slight right onto Main St');
+    expect(
+      formatStepInstruction({ maneuver: 'turn', modifier: 'straight' })
+    ).toBe('Go straight');
+    expect(
+      formatStepInstruction({ maneuver: 'uturn', modifier: 'uturn' })
+    ).toBe('Make a U-turn');
+    expect(
+      formatStepInstruction({ maneuver: 'fork', modifier: 'left', name: 'A1' })
+    ).toBe('Keep left onto A1');
+    expect(formatStepInstruction({ maneuver: 'continue' })).toBe(
+      'Continue straight'
+    );
+  });
+
+  it('words routes and directions in German', () => {
+    configureFormatting({ locale: 'de-DE' });
+    expect(plain(formatRouteSummary(walk))).toBe('10 Min. zu Fuß');
+    expect(plain(formatRouteSummary(transit))).toBe(
+      '25 Min. mit Öffis (RER B)'
+    );
+    expect(
+      formatStepInstruction({
+        maneuver: 'turn',
+        modifier: 'left',
+        name: 'Hauptstraße',
+      })
+    ).toBe('Links abbiegen auf Hauptstraße');
+    expect(formatDirections(steps).map(plain)).toEqual([
+      'Auf Rue de Rivoli starten',
+      'In 300 m links abbiegen auf Rue du Louvre',
+      'In 900 m am Ziel ankommen',
+    ]);
+  });
+
+  it('words routes and directions in French', () => {
+    configureFormatting({ locale: 'fr-FR' });
+    expect(plain(formatRouteSummary({ mode: 'cycling', duration: 480 }))).toBe(
+      '8 min à vélo'
+    );
+    expect(formatDirections(steps).map(plain)).toEqual([
+      'Partir sur Rue de Rivoli',
+      'Dans 300 m, tourner à gauche sur Rue du Louvre',
+      'Dans 900 m, arriver à destination',
+    ]);
+  });
+
+  it('falls back to English for other languages', () => {
+    const nl = createFormatter({ locale: 'nl-NL' });
+    expect(nl.formatStepInstruction({ maneuver: 'arrive' })).toBe(
+      'Arrive at your destination'
+    );
+  });
+
+  it('uses overridden messages', () => {
+    const italian = createFormatter({
+      locale: 'it-IT',
+      messages: {
+        routeSummary: (_mode, duration) => `${duration} a piedi`,
+        stepAhead: (instruction, distance) =>
+          `Tra ${distance}, ${instruction.toLowerCase()}`,
+      },
+    });
+    expect(plain(italian.formatRouteSummary(walk))).toBe('10 min a piedi');
+    expect(italian.formatDirections(steps)[2]).toBe(
+      'Tra 900 m, arrive at your destination'
+    );
+  });
+});
@@ -1,59 +1,435 @@
+import {
+  FORMATTING_MESSAGES,
+  type FormattingMessages,
+} from './formattingMessages';
+import type { RouteOption } from './geo';
+import type { RouteStep } from './routing';
+import {
+  formatTimeOfDay,
+  fromMinutes,
+  parseTimeOfDay,
+  parseTimeRange,
+  type TimeOfDay,
+  type TimeRange,
+  toMinutes,
+} from './timeOfDay';
+
+/**
+ * Unit system for distances.
+ */
+export type UnitSystem = 'metric' | 'imperial';
+
+/**
+ * Clock used for times of day.
+ */
+export type ClockFormat = '12h' | '24h';
+
+/**
+ * App-wide configuration for the formatting utilities.
+ */
+export interface FormattingConfig {
+  /** BCP 47 locale, e.g. `fr-FR`. Defaults to the runtime's locale. */
+  locale: string;
+  /**
+   * Unit system for distances. `auto` (the default) picks imperial for
+   * regions that sign distances in miles (US, GB, LR, MM), metric
+   * elsewhere.
+   */
+  units: UnitSystem | 'auto';
+  /** Clock for times. `auto` (the default) follows the locale. */
+  clock: ClockFormat | 'auto';
+  /**
+   * Wording of route summaries and directions, overriding the built-in
+   * messages for the locale's language (see `FORMATTING_MESSAGES`).
+   */
+  messages: Partial<FormattingMessages>;
+}
+
+/**
+ * Formatting functions bound to one configuration, with its `auto`
+ * settings resolved.
+ */
+export interface Formatter {
+  locale: string;
+  units: UnitSystem;
+  clock: ClockFormat;
+  /** See {@link formatDuration}. */
+  formatDuration: (seconds: number) => string;
+  /** See {@link formatDistance}. */
+  formatDistance: (metres: number) => string;
+  /** See {@link formatTime12}. */
+  formatTime: (t: string | TimeOfDay) => string;
+  /** See {@link formatTimeRange}. */
+  formatTimeRange: (range: string | TimeRange) => string;
+  /** See {@link formatHour}. */
+  formatHour: (hour: number) => string;
+  /** See {@link formatRelativeTime}. */
+  formatRelativeTime: (time: number | Date, now?: number | Date) => string;
+  /** See {@link formatRouteSummary}. */
+  formatRouteSummary: (
+    route: Pick<RouteOption, 'mode' | 'duration' | 'segments' | 'estimated'>
+  ) => string;
+  /** See {@link formatStepInstruction}. */
+  formatStepInstruction: (
+    step: Pick<RouteStep, 'maneuver' | 'modifier' | 'name'>
+  ) => string;
+  /** See {@link formatDirections}. */
+  formatDirections: (
+    steps: Pick<RouteStep, 'maneuver' | 'modifier' | 'name' | 'distance'>[]
+  ) => string[];
+}
+
+const MILE_REGIONS = new Set(['US', 'GB', 'LR', 'MM']);
+
+/** Relative-time units, each with the age in seconds it is used up to. */
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number, number][] = [
+  ['second', 1, 45],
+  ['minute', 60, 45 * 60],
+  ['hour', 3600, 22 * 3600],
+  ['day', 86400, 6 * 86400],
+  ['week', 7 * 86400, 4 * 7 * 86400],
+  ['month', 30 * 86400, 11 * 30 * 86400],
+  ['year', 365 * 86400, Infinity],
+];
+
+const defaultFormattingConfig = (): FormattingConfig => ({
+  locale: new Intl.DateTimeFormat().resolvedOptions().locale,
+  units: 'auto',
+  clock: 'auto',
+  messages: {},
+});
+
+const unitFormat = (
+  locale: string,
+  unit: string,
+  fractionDigits = 0
+): Intl.NumberFormat =>
+  new Intl.NumberFormat(locale, {
+    style: 'unit',
+    unit,
+    unitDisplay: 'short',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+
+/**
+ * Creates formatting functions for a configuration, independently of the
+ * app-wide one (e.g. to render another user's preferences).
+ *
+ * @example
+ * ```typescript
+ * const { formatDistance, formatTime } = createFormatter({ locale: 'de-DE' });
+ * formatDistance(2500); // "2,5 km"
+ * formatTime('14:30'); // "14:30"
+ * ```
+ */
+export function createFormatter(
+  config: Partial<FormattingConfig> = {}
+): Formatter {
+  const { locale, units, clock, messages } = {
+    ...defaultFormattingConfig(),
+    ...config,
+  };
+  const { routeSummary, step, stepAhead }: FormattingMessages = {
+    ...(FORMATTING_MESSAGES[new Intl.Locale(locale).language] ??
+      FORMATTING_MESSAGES.en),
+    ...messages,
+  };
+  const resolvedUnits: UnitSystem =
+    units !== 'auto'
+      ? units
+      : MILE_REGIONS.has(new Intl.Locale(locale).maximize().region ?? '')
+        ? 'imperial'
+        : 'metric';
+  const resolvedClock: ClockFormat =
+    clock !== 'auto'
+      ? clock
+      : new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions()
+            .hour12
+        ? '12h'
+        : '24h';
+
+  const minutes = unitFormat(locale, 'minute');
+  const hours = unitFormat(locale, 'hour');
+  const feet = unitFormat(locale, 'foot');
+  const miles = unitFormat(locale, 'mile', 1);
+  const metres = unitFormat(locale, 'meter');
+  const kilometres = unitFormat(locale, 'kilometer', 1);
+  // 24-hour times are shown as 09:05, and whole hours as 14:00
+  const clockOptions: Intl.DateTimeFormatOptions =
+    resolvedClock === '12h'
+      ? { hour: 'numeric', hourCycle: 'h12', timeZone: 'UTC' }
+      : { hour: '2-digit', hourCycle: 'h23', timeZone: 'UTC' };
+  const time = new Intl.DateTimeFormat(locale, {
+    ...clockOptions,
+    minute: '2-digit',
+  });
+  const hour = new Intl.DateTimeFormat(
+    locale,
+    resolvedClock === '12h'
+      ? clockOptions
+      : { ...clockOptions, minute: '2-digit' }
+  );
+  const relative = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+  const at = ({ hour, minute }: TimeOfDay): number =>
+    Date.UTC(1970, 0, 1, hour, minute);
+  const formatTime = (t: string | TimeOfDay): string => {
+    if (typeof t !== 'string') return time.format(at(t));
+    const parsed = parseTimeOfDay(t);
+    return parsed.ok ? time.format(at(parsed.value)) : t;
+  };
+  const formatDuration = (seconds: number): string => {
+    if (seconds < 60) return `< ${minutes.format(1)}`;
+    const mins = Math.round(seconds / 60);
+    if (mins < 60) return minutes.format(mins);
+    const hrs = Math.floor(mins / 60);
+    const rem = mins % 60;
+    return rem > 0
+      ? `${hours.format(hrs)} ${minutes.format(rem)}`
+      : hours.format(hrs);
+  };
+  const formatDistance = (distance: number): string => {
+    if (resolvedUnits === 'metric') {
+      return distance < 1000
+        ? metres.format(Math.round(distance))
+        : kilometres.format(distance / 1000);
+    }
+    const mi = distance / 1609.344;
+    if (mi < 0.1) return feet.format(Math.round(distance * 3.281));
+    return miles.format(mi);
+  };
+
+  return {
+    locale,
+    units: resolvedUnits,
+    clock: resolvedClock,
+    formatDuration,
+    formatDistance,
+    formatTime,
+    formatTimeRange: range => {
+      if (typeof range === 'string') {
+        const parsed = parseTimeRange(range);
+        if (!parsed.ok) return range;
+        range = parsed.value;
+      }
+      return `${formatTime(range.start)} – ${formatTime(range.end)}`;
+    },
+    formatHour: h => hour.format(at(fromMinutes(h * 60))),
+    formatRelativeTime: (then, now = Date.now()) => {
+      const seconds = (Number(then) - Number(now)) / 1000;
+      const [unit, size] = RELATIVE_UNITS.find(
+        ([, , limit]) => Math.abs(seconds) < limit
+      ) ?? ['year', 365 * 86400];
+      // Anything under 45 seconds reads as "now"
+      const value = unit === 'second' ? 0 : Math.round(seconds / size);
+      return relative.format(value, unit);
+    },
+    formatRouteSummary: route => {
+      const lines = (route.segments ?? [])
+        .filter(segment => segment.type === 'ride' && segment.line?.name)
+        .map(segment => segment.line?.name as string);
+      return routeSummary(
+        route.mode,
+        `${route.estimated ? '~' : ''}${formatDuration(route.duration)}`,
+        route.mode === 'transit' ? lines : []
+      );
+    },
+    formatStepInstruction: step,
+    formatDirections: steps =>
+      steps.map((current, i) =>
+        i === 0
+          ? step(current)
+          : stepAhead(step(current), formatDistance(steps[i - 1].distance))
+      ),
+  };
+}
+
+let formattingConfig: FormattingConfig | undefined;
+let activeFormatter: Formatter | undefined;
+
+/**
+ * Returns the active formatting configuration, creating the defaults on
+ * first use.
+ */
+export function getFormattingConfig(): FormattingConfig {
+  if (!formattingConfig) formattingConfig = defaultFormattingConfig();
+  return formattingConfig;
+}
+
+/**
+ * Overrides parts of the formatting configuration for the whole app.
+ *
+ * Call once at startup, e.g. with the user's settings.
+ *
+ * @example
+ * ```typescript
+ * configureFormatting({ locale: 'en-GB', units: 'metric' });
+ * ```
+ */
+export function configureFormatting(config: Partial<FormattingConfig>): void {
+  formattingConfig = { ...getFormattingConfig(), ...config };
+  activeFormatter = undefined;
+}
+
+/**
+ * Restores the default formatting configuration. Mainly useful in tests.
+ */
+export function resetFormattingConfig(): void {
+  formattingConfig = undefined;
+  activeFormatter = undefined;
+}
+
+/**
+ * Returns the formatter for the app-wide configuration.
+ */
+export function getFormatter(): Formatter {
+  if (!activeFormatter)
+    activeFormatter = createFormatter(getFormattingConfig());
+  return activeFormatter;
+}
+
 /**
- * Formats a duration in seconds to a human-readable string.
+ * Formats a duration in seconds to a human-readable string, in the
+ * configured locale.
  *
  * @example formatDuration(90) => "2 min"
  * @example formatDuration(3700) => "1 hr 2 min"
  */
 export function formatDuration(seconds: number): string {
-  if (seconds < 60) return '< 1 min';
-  const mins = Math.round(seconds / 60);
-  if (mins < 60) return `${mins} min`;
-  const hrs = Math.floor(mins / 60);
-  const rem = mins % 60;
-  return rem > 0 ? `${hrs} hr ${rem} min` : `${hrs} hr`;
+  return getFormatter().formatDuration(seconds);
 }
 
 /**
- * Formats a distance in metres to a human-readable string (imperial).
+ * Formats a route's duration together with how it is travelled, in the
+ * configured locale and its wording (see `FormattingConfig.messages`).
+ * Transit routes also name the lines ridden, and offline estimates are
+ * marked with `~`.
  *
- * @example formatDistance(500) => "1640 ft"
- * @example formatDistance(5000) => "3.1 mi"
+ * @example formatRouteSummary({ mode: 'walking', duration: 600, ... }) => "10 min walk"
+ * @example formatRouteSummary({ mode: 'cycling', duration: 480, ... }) => "8 min by bike"
+ * @example formatRouteSummary({ mode: 'transit', duration: 1500, segments, ... }) => "25 min by transit (4, RER B)"
+ * @example formatRouteSummary({ mode: 'walking', duration: 600, estimated: true, ... }) => "~10 min walk"
+ * @example formatRouteSummary({ mode: 'walking', duration: 600, ... }) => "10 Min. zu Fuß" (de-DE)
+ */
+export function formatRouteSummary(
+  route: Pick<RouteOption, 'mode' | 'duration' | 'segments' | 'estimated'>
+): string {
+  return getFormatter().formatRouteSummary(route);
+}
+
+/**
+ * Formats a distance in metres to a human-readable string, in the
+ * configured locale and unit system.
+ *
+ * @example formatDistance(500) => "1,640 ft" (en-US)
+ * @example formatDistance(5000) => "3.1 mi" (en-US)
+ * @example formatDistance(2500) => "2,5 km" (de-DE)
  */
 export function formatDistance(metres: number): string {
-  const miles = metres / 1609.344;
-  if (miles < 0.1) return `${Math.round(metres * 3.281)} ft`;
-  return `${miles.toFixed(1)} mi`;
+  return getFormatter().formatDistance(metres);
+}
+
+/**
+ * Formats a single turn-by-turn step as an instruction, in the configured
+ * locale's wording.
+ *
+ * @example formatStepInstruction({ maneuver: 'turn', modifier: 'left', name: 'Main St', ... }) => "Turn left onto Main St"
+ * @example formatStepInstruction({ maneuver: 'depart', name: 'Rue de Rivoli', ... }) => "Head out on Rue de Rivoli"
+ * @example formatStepInstruction({ maneuver: 'arrive', ... }) => "Arrive at your destination"
+ * @example formatStepInstruction({ maneuver: 'turn', modifier: 'left', name: 'Hauptstraße', ... }) => "Links abbiegen auf Hauptstraße" (de-DE)
+ */
+export function formatStepInstruction(
+  step: Pick<RouteStep, 'maneuver' | 'modifier' | 'name'>
+): string {
+  return getFormatter().formatStepInstruction(step);
+}
+
+/**
+ * Formats a route's steps as a list of instructions. Every instruction
+ * after the first says how far ahead it is, i.e. the distance of the
+ * preceding step.
+ *
+ * @example formatDirections(steps) => ["Head out on Main St", "Turn left onto Oak Ave in 300 ft", ...]
+ * @example formatDirections(steps) => ["Partir sur Rue de Rivoli", "Dans 300 m, tourner à gauche sur Rue du Louvre", ...] (fr-FR)
+ */
+export function formatDirections(
+  steps: Pick<RouteStep, 'maneuver' | 'modifier' | 'name' | 'distance'>[]
+): string[] {
+  return getFormatter().formatDirections(steps);
 }
 
 /**
- * Parses a HH:mm time string to a decimal hour value.
+ * Parses a time of day (any form accepted by `parseTimeOfDay`, e.g.
+ * `14:30`, `2:30 PM` or `14h30`) to a decimal hour value.
  *
  * @example parseTime("14:30") => 14.5
+ * @example parseTime("9am") => 9
+ * @returns The hour, or `NaN` when `t` is not a valid time
  */
 export function parseTime(t: string): number {
-  const [h, m] = t.split(':').map(Number);
-  return h + (m ?? 0) / 60;
+  const parsed = parseTimeOfDay(t);
+  return parsed.ok ? toMinutes(parsed.value) / 60 : NaN;
+}
+
+/**
+ * Formats minutes after midnight as a HH:mm time string, rounded to the
+ * minute and wrapped past midnight.
+ *
+ * @example formatClockTime(605.4) => "10:05"
+ */
+export function formatClockTime(minutes: number): string {
+  return formatTimeOfDay(fromMinutes(minutes));
 }
 
 /**
- * Formats a HH:mm time string to 12-hour format.
+ * Formats a time of day for display, on the configured clock (12-hour in
+ * en-US, despite the name). Strings are parsed with `parseTimeOfDay`, and
+ * returned unchanged when they are not a valid time.
+ *
+ * @example formatTime12("14:30") => "2:30 PM" (en-US)
+ * @example formatTime12("14h30") => "14:30" (fr-FR)
+ * @example formatTime12("25:00") => "25:00"
+ */
+export function formatTime12(t: string | TimeOfDay): string {
+  return getFormatter().formatTime(t);
+}
+
+/**
+ * Formats a range of times for display, on the configured clock. Strings
+ * are parsed with `parseTimeRange`, and returned unchanged when they are
+ * not a valid range.
+ *
+ * @example formatTimeRange("9-11:30am") => "9:00 AM – 11:30 AM" (en-US)
+ */
+export function formatTimeRange(range: string | TimeRange): string {
+  return getFormatter().formatTimeRange(range);
+}
+
+/**
+ * Formats a moment relative to now in the configured locale, e.g. for
+ * "Updated 4 minutes ago". Under 45 seconds reads as "now".
+ *
+ * @example formatRelativeTime(Date.now() - 4 * 60000) => "4 minutes ago" (en-US)
+ * @example formatRelativeTime(Date.now() - 86400000) => "yesterday" (en-US)
+ * @example formatRelativeTime(Date.now() - 4 * 60000) => "vor 4 Minuten" (de-DE)
  *
- * @example formatTime12("14:30") => "2:30 PM"
+ * @param time - The moment, as a timestamp in ms or a Date
+ * @param now - The current time. Defaults to `Date.now()`.
  */
-export function formatTime12(t: string): string {
-  const [h, m] = t.split(':').map(Number);
-  const period = h < 12 ? 'AM' : 'PM';
-  const hour = h % 12 === 0 ? 12 : h % 12;
-  return `${hour}:${String(m).padStart(2, '0')} ${period}`;
+export function formatRelativeTime(
+  time: number | Date,
+  now: number | Date = Date.now()
+): string {
+  return getFormatter().formatRelativeTime(time, now);
 }
 
 /**
- * Formats an hour number to a display string.
+ * Formats an hour number to a display string, on the configured clock.
+ * Hours outside 0–23 wrap around midnight.
  *
- * @example formatHour(14) => "2 PM"
+ * @example formatHour(14) => "2 PM" (en-US)
+ * @example formatHour(14) => "14:00" (en-GB)
  */
 export function formatHour(hour: number): string {
-  if (hour === 12) return '12 PM';
-  if (hour === 0) return '12 AM';
-  return hour < 12 ? `${hour} AM` : `${hour - 12} PM`;
+  return getFormatter().formatHour(hour);
 }
@@ -0,0 +1,222 @@
+import type { TransitMode } from './geo';
+import type { ManeuverModifier, RouteStep } from './routing';
+
+/**
+ * The wording around formatted values in route summaries and directions.
+ * Values arrive already formatted for the locale; each message only puts
+ * them into a sentence, so languages are free in their word order.
+ */
+export interface FormattingMessages {
+  /**
+   * A route's duration with how it is travelled, e.g. "10 min walk".
+   *
+   * @param mode - How the route is travelled
+   * @param duration - The formatted duration
+   * @param lines - Names of the transit lines ridden, if any
+   */
+  routeSummary: (
+    mode: TransitMode,
+    duration: string,
+    lines: string[]
+  ) => string;
+  /**
+   * A turn-by-turn instruction, e.g. "Turn left onto Main St".
+   */
+  step: (step: Pick<RouteStep, 'maneuver' | 'modifier' | 'name'>) => string;
+  /**
+   * An instruction with how far ahead it is, e.g. "Turn left onto Main St
+   * in 300 ft".
+   *
+   * @param instruction - The instruction from {@link FormattingMessages.step}
+   * @param distance - The formatted distance
+   */
+  stepAhead: (instruction: string, distance: string) => string;
+}
+
+const lowerFirst = (text: string): string =>
+  text.charAt(0).toLowerCase() + text.slice(1);
+
+const upperFirst = (text: string): string =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+const EN_DIRECTIONS: Record<ManeuverModifier, string> = {
+  uturn: '',
+  'sharp right': 'sharp right',
+  right: 'right',
+  'slight right': 'slight right',
+  straight: 'straight',
+  'slight left': 'slight left',
+  left: 'left',
+  'sharp left': 'sharp left',
+};
+
+const english: FormattingMessages = {
+  routeSummary: (mode, duration, lines) => {
+    switch (mode) {
+      case 'walking':
+        return `${duration} walk`;
+      case 'cycling':
+        return `${duration} by bike`;
+      case 'driving':
+        return `${duration} drive`;
+      case 'transit':
+        return lines.length > 0
+          ? `${duration} by transit (${lines.join(', ')})`
+          : `${duration} by transit`;
+    }
+  },
+  step: ({ maneuver, modifier, name }) => {
+    const onto = name ? ` onto ${name}` : '';
+    const direction = modifier ? ` ${EN_DIRECTIONS[modifier]}`.trimEnd() : '';
+    switch (maneuver) {
+      case 'depart':
+        return name ? `Head out on ${name}` : 'Head out';
+      case 'arrive':
+        return 'Arrive at your destination';
+      case 'uturn':
+        return `Make a U-turn${onto}`;
+      case 'roundabout':
+        return `Take the roundabout${onto}`;
+      case 'continue':
+        return name ? `Continue on ${name}` : 'Continue straight';
+      case 'turn':
+        return modifier === 'straight'
+          ? `Go straight${onto}`
+          : `Turn${direction}${onto}`;
+      case 'merge':
+        return `Merge${direction}${onto}`;
+      case 'ramp':
+        return `Take the ramp${direction}${onto}`;
+      case 'fork':
+        return `Keep${direction}${onto}`;
+    }
+  },
+  stepAhead: (instruction, distance) => `${instruction} in ${distance}`,
+};
+
+const DE_DIRECTIONS: Record<ManeuverModifier, string> = {
+  uturn: '',
+  'sharp right': 'scharf rechts',
+  right: 'rechts',
+  'slight right': 'leicht rechts',
+  straight: 'geradeaus',
+  'slight left': 'leicht links',
+  left: 'links',
+  'sharp left': 'scharf links',
+};
+
+/** A German verb phrase led by its direction, e.g. "Links abbiegen". */
+const deDirected = (direction: string, verb: string): string =>
+  upperFirst(direction ? `${direction} ${verb}` : verb);
+
+const german: FormattingMessages = {
+  routeSummary: (mode, duration, lines) => {
+    switch (mode) {
+      case 'walking':
+        return `${duration} zu Fuß`;
+      case 'cycling':
+        return `${duration} mit dem Rad`;
+      case 'driving':
+        return `${duration} mit dem Auto`;
+      case 'transit':
+        return lines.length > 0
+          ? `${duration} mit Öffis (${lines.join(', ')})`
+          : `${duration} mit Öffis`;
+    }
+  },
+  step: ({ maneuver, modifier, name }) => {
+    const onto = name ? ` auf ${name}` : '';
+    const direction = modifier ? DE_DIRECTIONS[modifier] : '';
+    switch (maneuver) {
+      case 'depart':
+        return name ? `Auf ${name} starten` : 'Starten';
+      case 'arrive':
+        return 'Am Ziel ankommen';
+      case 'uturn':
+        return `Wenden${onto}`;
+      case 'roundabout':
+        return `In den Kreisverkehr fahren${onto}`;
+      case 'continue':
+        return name ? `Weiter auf ${name}` : 'Geradeaus weiter';
+      case 'turn':
+        return modifier === 'straight'
+          ? `Geradeaus${onto}`
+          : `${deDirected(direction, 'abbiegen')}${onto}`;
+      case 'merge':
+        return `${deDirected(direction, 'einfädeln')}${onto}`;
+      case 'ramp':
+        return `Die Rampe${direction ? ` ${direction}` : ''} nehmen${onto}`;
+      case 'fork':
+        return `${deDirected(direction, 'halten')}${onto}`;
+    }
+  },
+  stepAhead: (instruction, distance) =>
+    `In ${distance} ${lowerFirst(instruction)}`,
+};
+
+const FR_DIRECTIONS: Record<ManeuverModifier, string> = {
+  uturn: '',
+  'sharp right': 'franchement à droite',
+  right: 'à droite',
+  'slight right': 'légèrement à droite',
+  straight: 'tout droit',
+  'slight left': 'légèrement à gauche',
+  left: 'à gauche',
+  'sharp left': 'franchement à gauche',
+};
+
+const french: FormattingMessages = {
+  routeSummary: (mode, duration, lines) => {
+    switch (mode) {
+      case 'walking':
+        return `${duration} à pied`;
+      case 'cycling':
+        return `${duration} à vélo`;
+      case 'driving':
+        return `${duration} en voiture`;
+      case 'transit':
+        return lines.length > 0
+          ? `${duration} en transports en commun (${lines.join(', ')})`
+          : `${duration} en transports en commun`;
+    }
+  },
+  step: ({ maneuver, modifier, name }) => {
+    const onto = name ? ` sur ${name}` : '';
+    const direction = modifier ? ` ${FR_DIRECTIONS[modifier]}`.trimEnd() : '';
+    switch (maneuver) {
+      case 'depart':
+        return name ? `Partir sur ${name}` : 'Partir';
+      case 'arrive':
+        return 'Arriver à destination';
+      case 'uturn':
+        return `Faire demi-tour${onto}`;
+      case 'roundabout':
+        return `Prendre le rond-point${onto}`;
+      case 'continue':
+        return name ? `Continuer sur ${name}` : 'Continuer tout droit';
+      case 'turn':
+        return modifier === 'straight'
+          ? `Aller tout droit${onto}`
+          : `Tourner${direction}${onto}`;
+      case 'merge':
+        return `S’insérer${direction}${onto}`;
+      case 'ramp':
+        return `Prendre la bretelle${direction}${onto}`;
+      case 'fork':
+        return `Rester${direction}${onto}`;
+    }
+  },
+  stepAhead: (instruction, distance) =>
+    `Dans ${distance}, ${lowerFirst(instruction)}`,
+};
+
+/**
+ * Built-in messages by language (the language subtag of the locale, e.g.
+ * `de` for `de-AT`). Other languages fall back to English; override or
+ * add wording with `configureFormatting({ messages })`.
+ */
+export const FORMATTING_MESSAGES: Record<string, FormattingMessages> = {
+  en: english,
+  de: german,
+  fr: french,
+};
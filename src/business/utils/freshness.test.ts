@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { cacheFreshness } from './freshness';
+
+const MINUTE = 60 * 1000;
+
+describe('cacheFreshness', () => {
+  const cachedAt = 1_700_000_000_000;
+
+  it('is fresh until half the maximum age', () => {
+    expect(
+      cacheFreshness(cachedAt, 30 * MINUTE, cachedAt + 4 * MINUTE)
+    ).toEqual({ status: 'fresh', age: 4 * MINUTE, changesIn: 11 * MINUTE + 1 });
+  });
+
+  it('is stale after the threshold and expired after the maximum age', () => {
+    expect(
+      cacheFreshness(cachedAt, 30 * MINUTE, cachedAt + 20 * MINUTE)
+    ).toMatchObject({ status: 'stale', changesIn: 10 * MINUTE + 1 });
+    expect(
+      cacheFreshness(cachedAt, 30 * MINUTE, cachedAt + 30 * MINUTE + 1)
+    ).toMatchObject({ status: 'expired', changesIn: null });
+  });
+
+  it('takes a custom stale threshold', () => {
+    expect(
+      cacheFreshness(cachedAt, 30 * MINUTE, cachedAt + 6 * MINUTE, 5 * MINUTE)
+        .status
+    ).toBe('stale');
+  });
+});
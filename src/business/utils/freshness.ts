@@ -0,0 +1,50 @@
+/**
+ * How current cached data is.
+ *
+ * - `fresh`: younger than the stale threshold
+ * - `stale`: older than the stale threshold, but still served by the store
+ * - `expired`: older than the store's maximum age, so it will be refetched
+ */
+export type FreshnessStatus = 'fresh' | 'stale' | 'expired';
+
+/**
+ * Share of the maximum age after which data counts as stale.
+ */
+export const DEFAULT_STALE_FRACTION = 0.5;
+
+/**
+ * The freshness of cached data at a moment.
+ */
+export interface Freshness {
+  status: FreshnessStatus;
+  /** Age of the data in milliseconds. */
+  age: number;
+  /** Milliseconds until the status changes, or `null` once expired. */
+  changesIn: number | null;
+}
+
+/**
+ * Works out how fresh cached data is. Data expires once it is older than
+ * `maxAge`, matching the stores' own expiry checks.
+ *
+ * @param cachedAt - When the data was cached (ms timestamp), e.g. a
+ *   manager's `cachedAt`
+ * @param maxAge - The store's maximum age, e.g.
+ *   `DEFAULT_TRIP_CACHE_EXPIRATION_MS`
+ * @param now - The current time. Defaults to `Date.now()`.
+ * @param staleAfter - Age in ms after which data is stale. Defaults to
+ *   half of `maxAge`.
+ */
+export const cacheFreshness = (
+  cachedAt: number,
+  maxAge: number,
+  now: number = Date.now(),
+  staleAfter: number = maxAge * DEFAULT_STALE_FRACTION
+): Freshness => {
+  const age = Math.max(0, now - cachedAt);
+  if (age > maxAge) return { status: 'expired', age, changesIn: null };
+  if (age > staleAfter) {
+    return { status: 'stale', age, changesIn: maxAge - age + 1 };
+  }
+  return { status: 'fresh', age, changesIn: staleAfter - age + 1 };
+};
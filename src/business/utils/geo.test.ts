@@ -0,0 +1,380 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useGeoCacheStore } from '../stores/geoCacheStore';
+import {
+  configureGeo,
+  DEFAULT_ESTIMATE_MODELS,
+  estimateRoute,
+  GeoError,
+  geoFetch,
+  haversineDistance,
+  resetGeoConfig,
+  resolveTransitRoute,
+} from './geo';
+import { createGazetteerProvider } from './geocoding';
+import type { RouteResult, RoutingProfile, RoutingProvider } from './routing';
+import type { TransitProvider } from './transit';
+
+const ok = () => new Response('{}', { status: 200 });
+
+describe('geoFetch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    resetGeoConfig();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends the configured identification headers', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(ok());
+    configureGeo({ headers: { 'X-App': 'superguide/1.0' } });
+    await geoFetch('https://geo.example.com/search', {
+      headers: { Accept: 'application/json' },
+    });
+    const headers = fetchSpy.mock.calls[0][1]?.headers as Headers;
+    expect(headers.get('X-App')).toBe('superguide/1.0');
+    expect(headers.get('Accept')).toBe('application/json');
+  });
+
+  it('spaces out requests to a rate-limited host in FIFO order', async () => {
+    const started: string[] = [];
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+      started.push(String(input));
+      return ok();
+    });
+
+    const requests = ['a', 'b', 'c'].map(q =>
+      geoFetch(`https://nominatim.openstreetmap.org/search?q=${q}`)
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(requests);
+    expect(started.map(url => url.slice(-1))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('does not throttle hosts without a rate limit', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(ok());
+    await Promise.all([
+      geoFetch('https://geo.example.com/a'),
+      geoFetch('https://geo.example.com/b'),
+    ]);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries after HTTP 429 honouring Retry-After', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(
+        new Response('', { status: 429, headers: { 'Retry-After': '5' } })
+      )
+      .mockResolvedValueOnce(ok());
+
+    const pending = geoFetch('https://geo.example.com/search');
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await pending).status).toBe(200);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops aborted requests from the queue without delaying others', async () => {
+    const started: string[] = [];
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+      started.push(String(input).slice(-1));
+      return ok();
+    });
+    const controller = new AbortController();
+    const host = 'https://nominatim.openstreetmap.org/search?q=';
+
+    const first = geoFetch(`${host}a`);
+    const aborted = geoFetch(`${host}b`, { signal: controller.signal });
+    const third = geoFetch(`${host}c`);
+    const rejection = expect(aborted).rejects.toBeDefined();
+    controller.abort();
+    await rejection;
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all([first, third]);
+    expect(started).toEqual(['a', 'c']);
+  });
+
+  it('throws rate_limited once retries are exhausted', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(
+      async () => new Response('', { status: 429 })
+    );
+    configureGeo({ maxRetries: 1, retryBackoffMs: 100 });
+
+    const pending = geoFetch('https://geo.example.com/search');
+    const assertion = expect(pending).rejects.toMatchObject({
+      reason: 'rate_limited',
+    });
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+  });
+});
+
+describe('estimateRoute', () => {
+  const louvre = { lat: 48.8606, lng: 2.3376 };
+  const orsay = { lat: 48.86, lng: 2.3266 };
+
+  it('measures great-circle distances', () => {
+    // One degree of latitude is about 111.2 km
+    expect(
+      haversineDistance({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })
+    ).toBeCloseTo(111195, -1);
+  });
+
+  it('applies the mode detour factor and speed', () => {
+    const straight = haversineDistance(louvre, orsay);
+    const { speed, detourFactor } = DEFAULT_ESTIMATE_MODELS.walking;
+    expect(estimateRoute(louvre, orsay, 'walking')).toEqual({
+      mode: 'walking',
+      distance: straight * detourFactor,
+      duration: (straight * detourFactor) / speed,
+      coords: [
+        [louvre.lat, louvre.lng],
+        [orsay.lat, orsay.lng],
+      ],
+      estimated: true,
+    });
+  });
+
+  it('accepts custom models', () => {
+    const route = estimateRoute(louvre, orsay, 'driving', {
+      driving: { speed: 10, detourFactor: 1 },
+    });
+    expect(route.duration).toBeCloseTo(haversineDistance(louvre, orsay) / 10);
+  });
+});
+
+describe('resolveTransitRoute', () => {
+  const geocoder = createGazetteerProvider([
+    { name: 'Louvre', coords: { lat: 48.8606, lng: 2.3376 } },
+    { name: 'Orsay', coords: { lat: 48.86, lng: 2.3266 } },
+  ]);
+
+  const route = (duration: number): RouteResult => ({
+    duration,
+    distance: duration,
+    coords: [],
+  });
+
+  const routerFrom = (
+    routes: Partial<Record<RoutingProfile, RouteResult | null | GeoError>>
+  ): RoutingProvider => ({
+    name: `test-${Math.random()}`,
+    route: async (_from, _to, profile) => {
+      const result = routes[profile];
+      if (result instanceof GeoError) throw result;
+      return result ?? null;
+    },
+  });
+
+  afterEach(() => {
+    useGeoCacheStore.getState().clearAll();
+    vi.restoreAllMocks();
+  });
+
+  it('walks when the walk is under 30 minutes', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({ foot: route(600), car: route(300) }),
+    });
+    expect(result).toMatchObject({ ok: true, value: { mode: 'walking' } });
+  });
+
+  it('drives when the walk is too long', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({ foot: route(3600), car: route(600) }),
+    });
+    expect(result).toMatchObject({ ok: true, value: { mode: 'driving' } });
+  });
+
+  it('returns the other routed modes as alternatives', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({ foot: route(2100), car: route(600) }),
+    });
+    expect(result.ok && result.value.alternatives).toEqual([
+      { mode: 'walking', ...route(2100) },
+    ]);
+  });
+
+  it('honours a shorter maximum walking duration', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({ foot: route(900), car: route(300) }),
+      preferences: { maxWalkDuration: 600 },
+    });
+    expect(result).toMatchObject({ ok: true, value: { mode: 'driving' } });
+  });
+
+  it('honours a maximum walking distance', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({
+        foot: { duration: 600, distance: 5000, coords: [] },
+        car: route(300),
+      }),
+      preferences: { maxWalkDistance: 2000 },
+    });
+    expect(result).toMatchObject({ ok: true, value: { mode: 'driving' } });
+  });
+
+  it('falls back to a disfavoured walk when driving is not allowed', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({ foot: route(3600), car: route(300) }),
+      preferences: { allowedModes: ['walking'] },
+    });
+    expect(result).toMatchObject({
+      ok: true,
+      value: { mode: 'walking', duration: 3600 },
+    });
+    expect(result.ok && result.value.alternatives).toBeUndefined();
+  });
+
+  it('follows the preference order', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({ foot: route(300), car: route(600) }),
+      preferences: { preferenceOrder: ['driving', 'walking'] },
+    });
+    expect(result).toMatchObject({ ok: true, value: { mode: 'driving' } });
+  });
+
+  it('cycles only when cycling is allowed', async () => {
+    const router = routerFrom({
+      foot: route(3600),
+      bike: route(900),
+      car: route(600),
+    });
+    const byDefault = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router,
+    });
+    expect(byDefault).toMatchObject({ ok: true, value: { mode: 'driving' } });
+
+    const withBike = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router,
+      preferences: { allowedModes: ['walking', 'cycling', 'driving'] },
+    });
+    expect(withBike).toMatchObject({ ok: true, value: { mode: 'cycling' } });
+  });
+
+  it('prefers transit over driving when a transit provider is given', async () => {
+    const transit: TransitProvider = {
+      name: 'test-transit',
+      plan: async () => ({
+        ...route(1200),
+        segments: [{ type: 'ride', wait: 60, ...route(1140) }],
+      }),
+    };
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({ foot: route(3600), car: route(600) }),
+      transit,
+    });
+    expect(result).toMatchObject({
+      ok: true,
+      value: { mode: 'transit', segments: [{ type: 'ride', wait: 60 }] },
+    });
+  });
+
+  it('routes from coordinates without geocoding them', async () => {
+    const search = vi.spyOn(geocoder, 'search');
+    const result = await resolveTransitRoute(
+      { lat: 48.861, lng: 2.335 },
+      'Orsay',
+      { geocoder, router: routerFrom({ foot: route(600) }) }
+    );
+    expect(result).toMatchObject({ ok: true, value: { mode: 'walking' } });
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(search).toHaveBeenCalledWith('Orsay', expect.anything());
+  });
+
+  it('reports not_found when a place cannot be geocoded', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Atlantis', {
+      geocoder,
+      router: routerFrom({ foot: route(600) }),
+    });
+    expect(result).toMatchObject({ ok: false, reason: 'not_found' });
+  });
+
+  it('reports no_route when neither profile has a path', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({}),
+    });
+    expect(result).toMatchObject({ ok: false, reason: 'no_route' });
+  });
+
+  it('rejects with the abort reason when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      resolveTransitRoute('Louvre', 'Orsay', {
+        geocoder,
+        router: routerFrom({ foot: route(600) }),
+        signal: controller.signal,
+      })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('falls back to offline estimates when routing fails', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({
+        foot: new GeoError('network'),
+        car: new GeoError('network'),
+      }),
+    });
+    expect(result).toMatchObject({
+      ok: true,
+      value: {
+        mode: 'walking',
+        estimated: true,
+        alternatives: [{ mode: 'driving', estimated: true }],
+      },
+    });
+  });
+
+  it('only estimates the modes that failed', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({ foot: null, car: new GeoError('rate_limited') }),
+    });
+    expect(result).toMatchObject({
+      ok: true,
+      value: { mode: 'driving', estimated: true },
+    });
+    expect(result.ok && result.value.alternatives).toBeUndefined();
+  });
+
+  it('does not estimate when no mode has a path', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({ foot: null, car: null }),
+    });
+    expect(result).toMatchObject({ ok: false, reason: 'no_route' });
+  });
+
+  it('reports the routing failure rather than no_route', async () => {
+    const result = await resolveTransitRoute('Louvre', 'Orsay', {
+      geocoder,
+      router: routerFrom({ car: new GeoError('network') }),
+      offlineFallback: false,
+    });
+    expect(result).toMatchObject({ ok: false, reason: 'network' });
+  });
+});
@@ -1,3 +1,24 @@
+import {
+  geocodeCacheKey,
+  reverseGeocodeCacheKey,
+  routeCacheKey,
+  useGeoCacheStore,
+} from '../stores/geoCacheStore';
+import {
+  createNominatimProvider,
+  type GeocodeBias,
+  type GeocodeCandidate,
+  type GeocodingProvider,
+} from './geocoding';
+import {
+  createOsrmProvider,
+  type DurationMatrix,
+  type RouteResult,
+  type RoutingProfile,
+  type RoutingProvider,
+} from './routing';
+import type { TransitProvider, TransitRoute, TransitSegment } from './transit';
+
 /**
  * Geographic coordinates.
  */
@@ -6,89 +27,929 @@ export interface Coords {
   lng: number;
 }
 
+/**
+ * A latitude/longitude aligned rectangle.
+ */
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * An end of a route: a place name to geocode, or coordinates such as the
+ * device's current position.
+ */
+export type RouteEndpoint = string | Coords;
+
+const EARTH_RADIUS_M = 6371008.8;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in metres.
+ */
+export const haversineDistance = (a: Coords, b: Coords): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * How a leg is travelled.
+ */
+export type TransitMode = 'walking' | 'cycling' | 'driving' | 'transit';
+
+/**
+ * A routed way of travelling a leg in a given mode.
+ */
+export interface RouteOption extends RouteResult {
+  mode: TransitMode;
+  /** Walk and ride segments with line, stop and wait details (`transit` only). */
+  segments?: TransitSegment[];
+  /**
+   * Set when the route is an offline estimate from {@link estimateRoute}
+   * rather than a routed path.
+   */
+  estimated?: true;
+}
+
 /**
  * Route information between two points.
  */
-export interface RouteInfo {
-  mode: 'walking' | 'driving';
-  duration: number;
-  distance: number;
-  coords: [number, number][];
+export interface RouteInfo extends RouteOption {
+  /**
+   * The other modes that were routed for this leg, in preference order,
+   * so the UI can offer e.g. "walk instead (35 min)".
+   */
+  alternatives?: RouteOption[];
+}
+
+/**
+ * User preferences that decide which mode {@link resolveTransitRoute} picks.
+ */
+export interface TransitPreferences {
+  /** Longest acceptable walk in seconds. */
+  maxWalkDuration?: number;
+  /** Longest acceptable walk in metres. Unlimited by default. */
+  maxWalkDistance?: number;
+  /** Modes the user is willing to use. Defaults to every mode. */
+  allowedModes?: TransitMode[];
+  /** Modes in order of preference; the first acceptable one wins. */
+  preferenceOrder?: TransitMode[];
+}
+
+/**
+ * Default preferences: walk when it takes 30 minutes or less, else take
+ * public transport (when a transit provider is configured), else drive.
+ * Cycling is opt-in via `allowedModes`.
+ */
+export const DEFAULT_TRANSIT_PREFERENCES: Required<
+  Omit<TransitPreferences, 'maxWalkDistance'>
+> = {
+  maxWalkDuration: 1800,
+  allowedModes: ['walking', 'transit', 'driving'],
+  preferenceOrder: ['walking', 'transit', 'cycling', 'driving'],
+};
+
+const MODE_PROFILES: Record<Exclude<TransitMode, 'transit'>, RoutingProfile> = {
+  walking: 'foot',
+  cycling: 'bike',
+  driving: 'car',
+};
+
+/**
+ * How {@link estimateRoute} models travel in a mode.
+ */
+export interface EstimateModel {
+  /** Average speed in m/s, including stops along the way. */
+  speed: number;
+  /** Ratio of the travelled distance to the straight-line distance. */
+  detourFactor: number;
+}
+
+/**
+ * Urban travel models used for offline estimates. Transit averages in
+ * access walks and waits.
+ */
+export const DEFAULT_ESTIMATE_MODELS: Record<TransitMode, EstimateModel> = {
+  walking: { speed: 1.3, detourFactor: 1.25 },
+  cycling: { speed: 4.2, detourFactor: 1.25 },
+  driving: { speed: 8.3, detourFactor: 1.4 },
+  transit: { speed: 5.5, detourFactor: 1.3 },
+};
+
+/**
+ * Estimates a route without any network access, from the straight-line
+ * distance scaled by the mode's detour factor and travelled at the mode's
+ * average speed. The geometry is the straight line between the points.
+ *
+ * @param from - Origin coordinates
+ * @param to - Destination coordinates
+ * @param mode - How the leg is travelled
+ * @param models - Overrides the models of {@link DEFAULT_ESTIMATE_MODELS}
+ * @returns An estimated route, flagged `estimated: true`
+ */
+export const estimateRoute = (
+  from: Coords,
+  to: Coords,
+  mode: TransitMode,
+  models: Partial<Record<TransitMode, EstimateModel>> = {}
+): RouteOption => {
+  const { speed, detourFactor } = models[mode] ?? DEFAULT_ESTIMATE_MODELS[mode];
+  const distance = haversineDistance(from, to) * detourFactor;
+  return {
+    mode,
+    duration: distance / speed,
+    distance,
+    coords: [
+      [from.lat, from.lng],
+      [to.lat, to.lng],
+    ],
+    estimated: true,
+  };
+};
+
+/**
+ * Why a geo operation failed.
+ *
+ * - `not_found` -- the geocoder has no match for the query
+ * - `no_route` -- the routing engine found no path between the points
+ * - `network` -- the service could not be reached or returned a 5xx
+ * - `rate_limited` -- the service kept answering HTTP 429
+ * - `bad_response` -- the service answered with something unexpected
+ */
+export type GeoFailureReason =
+  'not_found' | 'no_route' | 'network' | 'rate_limited' | 'bad_response';
+
+/**
+ * A failed geo operation.
+ */
+export interface GeoFailure {
+  ok: false;
+  reason: GeoFailureReason;
+  /** Diagnostic detail; not meant for end users. */
+  message?: string;
+}
+
+/**
+ * Outcome of a geo operation: either the value or a {@link GeoFailure}.
+ */
+export type GeoResult<T> = { ok: true; value: T } | GeoFailure;
+
+/**
+ * Error thrown by geo providers, carrying a {@link GeoFailureReason}.
+ */
+export class GeoError extends Error {
+  constructor(
+    readonly reason: GeoFailureReason,
+    message: string = reason
+  ) {
+    super(message);
+    this.name = 'GeoError';
+  }
+}
+
+/**
+ * Maps a non-successful HTTP status to a {@link GeoFailureReason}.
+ */
+export const httpFailureReason = (status: number): GeoFailureReason => {
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'network';
+  return 'bad_response';
+};
+
+/**
+ * The {@link GeoFailureReason} of a thrown error: the reason of a
+ * {@link GeoError}, and `bad_response` for anything else.
+ */
+export const geoFailureReason = (err: unknown): GeoFailureReason =>
+  err instanceof GeoError ? err.reason : 'bad_response';
+
+/**
+ * Whether a failure is transient and worth retrying later.
+ */
+export const isRetryableGeoFailure = (reason: GeoFailureReason): boolean =>
+  reason === 'network' || reason === 'rate_limited';
+
+const toFailure = (err: unknown): GeoFailure => ({
+  ok: false,
+  reason: geoFailureReason(err),
+  message: err instanceof Error ? err.message : String(err),
+});
+
+/**
+ * App-wide configuration for the geo utilities.
+ */
+export interface GeoConfig {
+  /** Geocoding backend. Defaults to the public Nominatim server. */
+  geocoder: GeocodingProvider;
+  /** Routing backend. Defaults to the public OSRM demo server. */
+  router: RoutingProvider;
+  /** Public-transport planner. The `transit` mode is skipped without one. */
+  transit?: TransitProvider;
+  /**
+   * Identification headers sent with every geo request, e.g.
+   * `{ 'User-Agent': 'MyApp/1.2 (ops@example.com)' }`. Browsers refuse to
+   * override `User-Agent`; web apps rely on the `Referer` they send anyway.
+   */
+  headers: Record<string, string>;
+  /**
+   * Minimum interval between requests to the same host, in milliseconds,
+   * keyed by hostname. Hosts not listed here are not throttled.
+   */
+  rateLimits: Record<string, number>;
+  /** How many times a request is retried after an HTTP 429. */
+  maxRetries: number;
+  /** Base backoff after an HTTP 429 when no `Retry-After` is sent, in ms. */
+  retryBackoffMs: number;
+}
+
+/**
+ * Per-host request intervals required by the public OpenStreetMap services
+ * (both allow at most one request per second).
+ */
+export const OSM_RATE_LIMITS: Record<string, number> = {
+  'nominatim.openstreetmap.org': 1000,
+  'router.project-osrm.org': 1000,
+};
+
+let geoConfig: GeoConfig | undefined;
+
+const defaultGeoConfig = (): GeoConfig => ({
+  geocoder: createNominatimProvider(),
+  router: createOsrmProvider(),
+  headers: {},
+  rateLimits: { ...OSM_RATE_LIMITS },
+  maxRetries: 3,
+  retryBackoffMs: 2000,
+});
+
+/**
+ * Returns the active geo configuration, creating the defaults on first use.
+ */
+export function getGeoConfig(): GeoConfig {
+  if (!geoConfig) geoConfig = defaultGeoConfig();
+  return geoConfig;
+}
+
+/**
+ * Overrides parts of the geo configuration for the whole app.
+ *
+ * Call once at startup, before any geocoding happens.
+ *
+ * @example
+ * ```typescript
+ * configureGeo({
+ *   geocoder: createPhotonProvider({ baseUrl: 'https://photon.example.com' }),
+ * });
+ * ```
+ */
+export function configureGeo(config: Partial<GeoConfig>): void {
+  geoConfig = { ...getGeoConfig(), ...config };
+}
+
+/**
+ * Restores the default geo configuration. Mainly useful in tests.
+ */
+export function resetGeoConfig(): void {
+  geoConfig = undefined;
+  hostQueues.clear();
+}
+
+interface HostQueue {
+  /** Settles when the most recently queued request may start. */
+  tail: Promise<void>;
+  /** Earliest timestamp (ms) at which the next request may start. */
+  nextAt: number;
+}
+
+const hostQueues = new Map<string, HostQueue>();
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Settles like `promise`, or rejects with the signal's reason as soon as
+ * `signal` aborts.
+ */
+export const withAbort = <T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Waits for the next free slot on a host's FIFO queue. A request aborted
+ * while queued gives up its slot without delaying the ones behind it.
+ */
+const acquireSlot = (
+  host: string,
+  interval: number,
+  signal?: AbortSignal
+): Promise<void> => {
+  let queue = hostQueues.get(host);
+  if (!queue) {
+    queue = { tail: Promise.resolve(), nextAt: 0 };
+    hostQueues.set(host, queue);
+  }
+  const state = queue;
+  const slot = state.tail.then(async () => {
+    if (signal?.aborted) return;
+    const wait = state.nextAt - Date.now();
+    if (wait > 0) await sleep(wait);
+    if (signal?.aborted) return;
+    state.nextAt = Date.now() + interval;
+  });
+  state.tail = slot;
+  return withAbort(slot, signal);
+};
+
+/**
+ * Parses a `Retry-After` header (seconds or HTTP date) into milliseconds.
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * `fetch` wrapper used by every geo provider.
+ *
+ * Requests go through a shared per-host FIFO queue that enforces the
+ * intervals in {@link GeoConfig.rateLimits}, carry the configured
+ * identification headers, and are retried with backoff on HTTP 429
+ * (honouring `Retry-After`).
+ *
+ * @param url - Absolute request URL
+ * @param init - Optional `fetch` init; its headers override the defaults
+ *   and its `signal` cancels the request, including while it is queued
+ * @returns The response from the server
+ * @throws The signal's abort reason when `init.signal` aborts
+ * @throws GeoError with reason `network` if the request cannot be sent
+ * @throws GeoError with reason `rate_limited` once
+ *   {@link GeoConfig.maxRetries} retries after HTTP 429 are exhausted
+ */
+export async function geoFetch(
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const { headers, rateLimits, maxRetries, retryBackoffMs } = getGeoConfig();
+  const host = new URL(url).hostname;
+  const interval = rateLimits[host] ?? 0;
+  const requestHeaders = new Headers(headers);
+  new Headers(init.headers).forEach((value, key) =>
+    requestHeaders.set(key, value)
+  );
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot(host, interval, init.signal ?? undefined);
+    let res: Response;
+    try {
+      res = await fetch(url, { ...init, headers: requestHeaders });
+    } catch (err) {
+      if (init.signal?.aborted) throw init.signal.reason;
+      throw new GeoError(
+        'network',
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+    if (res.status !== 429) return res;
+    if (attempt >= maxRetries) {
+      throw new GeoError('rate_limited', `Rate limited by ${host}`);
+    }
+    const backoff =
+      parseRetryAfter(res.headers.get('Retry-After')) ??
+      retryBackoffMs * 2 ** attempt;
+    const queue = hostQueues.get(host);
+    if (queue) queue.nextAt = Math.max(queue.nextAt, Date.now() + backoff);
+  }
+}
+
+/**
+ * Options accepted by {@link geocode}.
+ */
+export interface GeocodeOptions {
+  /** Overrides the configured geocoding provider for this call. */
+  provider?: GeocodingProvider;
+  /** Context that decides between same-named places. */
+  bias?: GeocodeBias;
+  /** Cancels the lookup; the promise then rejects with the abort reason. */
+  signal?: AbortSignal;
 }
 
+/** Number of candidates requested when a bias has to pick among them. */
+const BIASED_CANDIDATE_LIMIT = 5;
+
+const isInside = ({ lat, lng }: Coords, box: BoundingBox): boolean =>
+  lat >= box.south && lat <= box.north && lng >= box.west && lng <= box.east;
+
 /**
- * Geocodes a place name to coordinates using Nominatim.
+ * Orders candidates by a bias: matches inside the viewbox first, then by
+ * distance to `near` (or the viewbox centre). Country and city filters are
+ * left to the provider.
+ */
+const rankCandidates = (
+  candidates: GeocodeCandidate[],
+  { viewbox, near }: GeocodeBias
+): GeocodeCandidate[] => {
+  const reference =
+    near ??
+    (viewbox && {
+      lat: (viewbox.south + viewbox.north) / 2,
+      lng: (viewbox.west + viewbox.east) / 2,
+    });
+  const score = ({ coords }: GeocodeCandidate): [number, number] => [
+    viewbox && !isInside(coords, viewbox) ? 1 : 0,
+    reference ? haversineDistance(coords, reference) : 0,
+  ];
+  return candidates
+    .map(candidate => ({ candidate, score: score(candidate) }))
+    .sort((a, b) => a.score[0] - b.score[0] || a.score[1] - b.score[1])
+    .map(({ candidate }) => candidate);
+};
+
+/**
+ * Geocodes a place name to coordinates using the configured provider.
+ *
+ * With a `bias`, several candidates are requested from the provider
+ * (which applies the city and country codes) and the one inside the
+ * viewbox or closest to `near` wins, so "Central Park" on a Paris trip
+ * does not resolve to New York.
+ *
+ * Results (including "not found") are cached in {@link useGeoCacheStore}
+ * per query and bias, and concurrent lookups of the same query share one
+ * request. The shared request is only cancelled once every caller waiting
+ * on it has aborted.
  *
  * @param query - Place name or address to geocode
- * @returns Coordinates or null if not found
+ * @param options - Optional provider override, bias and abort signal
+ * @returns The coordinates, or a failure with reason `not_found`,
+ *   `network`, `rate_limited` or `bad_response`
+ * @throws The signal's abort reason when `options.signal` aborts
  */
-export async function geocode(query: string): Promise<Coords | null> {
-  try {
-    const res = await fetch(
-      `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(query)}&format=json&limit=1`,
-    );
-    const data: Array<{ lat: string; lon: string }> = await res.json();
-    if (!data[0]) return null;
-    return { lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon) };
-  } catch {
-    return null;
+export async function geocode(
+  query: string,
+  { provider = getGeoConfig().geocoder, bias, signal }: GeocodeOptions = {}
+): Promise<GeoResult<Coords>> {
+  if (signal?.aborted) throw signal.reason;
+  const cache = useGeoCacheStore.getState();
+  const key = geocodeCacheKey(provider.name, query, bias);
+  let coords = cache.getGeocode(key)?.value;
+  if (coords === undefined) {
+    try {
+      coords = await cache.dedupe(
+        key,
+        async shared => {
+          const candidates = await provider.search(query, {
+            limit: bias ? BIASED_CANDIDATE_LIMIT : 1,
+            bias,
+            signal: shared,
+          });
+          const [best] = bias ? rankCandidates(candidates, bias) : candidates;
+          const value = best ? best.coords : null;
+          useGeoCacheStore.getState().setGeocode(key, value);
+          return value;
+        },
+        signal
+      );
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason;
+      return toFailure(err);
+    }
+  }
+  return coords
+    ? { ok: true, value: coords }
+    : { ok: false, reason: 'not_found', message: `No match for "${query}"` };
+}
+
+/**
+ * Options accepted by {@link reverseGeocode}.
+ */
+export interface ReverseGeocodeOptions {
+  /** Overrides the configured geocoding provider for this call. */
+  provider?: GeocodingProvider;
+  /** Cancels the lookup; the promise then rejects with the abort reason. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Looks up the place at the given coordinates using the configured
+ * provider, e.g. to label the device's position or a long-pressed point.
+ *
+ * Results are cached and deduplicated like {@link geocode}.
+ *
+ * @param coords - Coordinates to look up
+ * @param options - Optional provider override and abort signal
+ * @returns The nearest place with its label, or a failure with reason
+ *   `not_found` (also when the provider cannot reverse geocode),
+ *   `network`, `rate_limited` or `bad_response`
+ * @throws The signal's abort reason when `options.signal` aborts
+ */
+export async function reverseGeocode(
+  coords: Coords,
+  { provider = getGeoConfig().geocoder, signal }: ReverseGeocodeOptions = {}
+): Promise<GeoResult<GeocodeCandidate>> {
+  if (signal?.aborted) throw signal.reason;
+  const reverse = provider.reverse;
+  if (!reverse) {
+    return {
+      ok: false,
+      reason: 'not_found',
+      message: `${provider.name} does not support reverse geocoding`,
+    };
+  }
+  const cache = useGeoCacheStore.getState();
+  const key = reverseGeocodeCacheKey(provider.name, coords);
+  let place = cache.getPlace(key)?.value;
+  if (place === undefined) {
+    try {
+      place = await cache.dedupe(
+        key,
+        async shared => {
+          const value = await reverse(coords, { signal: shared });
+          useGeoCacheStore.getState().setPlace(key, value);
+          return value;
+        },
+        signal
+      );
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason;
+      return toFailure(err);
+    }
   }
+  return place
+    ? { ok: true, value: place }
+    : {
+        ok: false,
+        reason: 'not_found',
+        message: `No place at ${coords.lat}, ${coords.lng}`,
+      };
+}
+
+/**
+ * Options accepted by {@link fetchRoute}.
+ */
+export interface FetchRouteOptions {
+  /** Overrides the configured routing provider for this call. */
+  provider?: RoutingProvider;
+  /** Cancels the request; the promise then rejects with the abort reason. */
+  signal?: AbortSignal;
 }
 
 /**
- * Fetches a route between two points using OSRM.
+ * Fetches a route between two points using the configured routing provider.
+ *
+ * Results are cached per (coords, profile) in {@link useGeoCacheStore} and
+ * concurrent identical requests share one call, which is only cancelled
+ * once every caller waiting on it has aborted.
  *
  * @param from - Origin coordinates
  * @param to - Destination coordinates
  * @param profile - Routing profile ('foot' or 'car')
- * @returns Route duration, distance, and polyline coords, or null on failure
+ * @param options - Optional provider override and abort signal
+ * @returns Route duration, distance, and polyline coords, or a failure
+ *   with reason `no_route`, `network`, `rate_limited` or `bad_response`
+ * @throws The signal's abort reason when `options.signal` aborts
  */
 export async function fetchRoute(
   from: Coords,
   to: Coords,
-  profile: 'foot' | 'car',
-): Promise<{ duration: number; distance: number; coords: [number, number][] } | null> {
+  profile: RoutingProfile,
+  { provider = getGeoConfig().router, signal }: FetchRouteOptions = {}
+): Promise<GeoResult<RouteResult>> {
+  if (signal?.aborted) throw signal.reason;
+  const cache = useGeoCacheStore.getState();
+  const key = routeCacheKey(provider.name, from, to, profile);
+  let route = cache.getRoute(key)?.value;
+  if (route === undefined) {
+    try {
+      route = await cache.dedupe(
+        key,
+        async shared => {
+          const value = await provider.route(from, to, profile, {
+            signal: shared,
+          });
+          useGeoCacheStore.getState().setRoute(key, value);
+          return value;
+        },
+        signal
+      );
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason;
+      return toFailure(err);
+    }
+  }
+  return route
+    ? { ok: true, value: route }
+    : { ok: false, reason: 'no_route', message: `No ${profile} route found` };
+}
+
+const PROFILE_MODES: Record<RoutingProfile, TransitMode> = {
+  foot: 'walking',
+  bike: 'cycling',
+  car: 'driving',
+};
+
+const estimateDuration = (
+  from: Coords,
+  to: Coords,
+  profile: RoutingProfile
+): number => estimateRoute(from, to, PROFILE_MODES[profile]).duration;
+
+/**
+ * Travel times between every pair of a set of points.
+ */
+export interface TravelTimeMatrix {
+  /** `durations[i][j]` is the travel time from point `i` to `j` in seconds. */
+  durations: number[][];
+  /** Whether any duration is a straight-line estimate. */
+  estimated: boolean;
+}
+
+/**
+ * Builds a travel-time matrix between `points` with the routing
+ * provider's matrix service (e.g. OSRM `table`).
+ *
+ * When the provider has no matrix service or the request fails (e.g.
+ * offline), durations are estimated from the straight-line distance with
+ * a typical detour and speed for the profile. Pairs the engine cannot
+ * route between are estimated the same way. Matrices are not cached.
+ *
+ * @param points - The points, in matrix order
+ * @param profile - Routing profile
+ * @param options - Optional provider override and abort signal
+ * @returns The matrix, flagged when it contains estimates
+ * @throws The signal's abort reason when `options.signal` aborts
+ */
+export async function fetchDurationMatrix(
+  points: Coords[],
+  profile: RoutingProfile,
+  { provider = getGeoConfig().router, signal }: FetchRouteOptions = {}
+): Promise<TravelTimeMatrix> {
+  if (signal?.aborted) throw signal.reason;
+  let table: DurationMatrix | undefined;
+  if (provider.table && points.length > 1) {
+    try {
+      table = await provider.table(points, profile, { signal });
+    } catch {
+      // Fall back to estimates below.
+      if (signal?.aborted) throw signal.reason;
+    }
+  }
+  let estimated = false;
+  const durations = points.map((from, i) =>
+    points.map((to, j) => {
+      if (i === j) return 0;
+      const duration = table?.[i]?.[j];
+      if (typeof duration === 'number') return duration;
+      estimated = true;
+      return estimateDuration(from, to, profile);
+    })
+  );
+  return { durations, estimated };
+}
+
+/**
+ * Options accepted by {@link fetchTransitRoute}.
+ */
+export interface FetchTransitRouteOptions {
+  /** Overrides the configured transit provider for this call. */
+  provider?: TransitProvider;
+  /** Desired departure time. Defaults to now. */
+  departAt?: Date;
+  /** Cancels the request; the promise then rejects with the abort reason. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Plans a public-transport journey between two points using the configured
+ * transit provider. Journeys depend on the departure time, so they are
+ * not cached.
+ *
+ * @param from - Origin coordinates
+ * @param to - Destination coordinates
+ * @param options - Optional provider override, departure time and signal
+ * @returns The transit route with its segments, or a failure with reason
+ *   `no_route` (also when no transit provider is configured), `network`,
+ *   `rate_limited` or `bad_response`
+ * @throws The signal's abort reason when `options.signal` aborts
+ */
+export async function fetchTransitRoute(
+  from: Coords,
+  to: Coords,
+  {
+    provider = getGeoConfig().transit,
+    departAt,
+    signal,
+  }: FetchTransitRouteOptions = {}
+): Promise<GeoResult<TransitRoute>> {
+  if (signal?.aborted) throw signal.reason;
+  if (!provider) {
+    return {
+      ok: false,
+      reason: 'no_route',
+      message: 'No transit provider configured',
+    };
+  }
   try {
-    const res = await fetch(
-      `https://router.project-osrm.org/route/v1/${profile}/${from.lng},${from.lat};${to.lng},${to.lat}?overview=full&geometries=geojson`,
-    );
-    const data = await res.json();
-    if (data.code !== 'Ok' || !data.routes?.[0]) return null;
-    const route = data.routes[0];
-    const coords = (route.geometry.coordinates as [number, number][]).map(
-      ([lng, lat]) => [lat, lng] as [number, number],
-    );
-    return { duration: route.duration, distance: route.distance, coords };
-  } catch {
-    return null;
+    const route = await provider.plan(from, to, { departAt, signal });
+    return route
+      ? { ok: true, value: route }
+      : { ok: false, reason: 'no_route', message: 'No transit journey found' };
+  } catch (err) {
+    if (signal?.aborted) throw signal.reason;
+    return toFailure(err);
   }
 }
 
 /**
- * Resolves the best transit route between two named locations.
+ * Options accepted by {@link resolveTransitRoute}.
+ */
+export interface ResolveTransitRouteOptions {
+  /** Overrides the configured geocoding provider for both endpoints. */
+  geocoder?: GeocodingProvider;
+  /**
+   * Geographic context for geocoding named endpoints, typically shared by
+   * every leg of a trip so they all resolve in the same area.
+   */
+  bias?: GeocodeBias;
+  /** Overrides the configured routing provider for every road mode. */
+  router?: RoutingProvider;
+  /** Overrides the configured transit provider for the `transit` mode. */
+  transit?: TransitProvider;
+  /** Departure time used for the `transit` mode. Defaults to now. */
+  departAt?: Date;
+  /** Cancels all lookups; the promise then rejects with the abort reason. */
+  signal?: AbortSignal;
+  /** Mode selection policy; merged over {@link DEFAULT_TRANSIT_PREFERENCES}. */
+  preferences?: TransitPreferences;
+  /**
+   * Whether to fall back to {@link estimateRoute} when live routing fails.
+   * Defaults to `true`.
+   */
+  offlineFallback?: boolean;
+}
+
+/**
+ * Orders the allowed modes by preference; allowed modes missing from the
+ * preference order are tried last.
+ */
+const candidateModes = ({
+  allowedModes = DEFAULT_TRANSIT_PREFERENCES.allowedModes,
+  preferenceOrder = DEFAULT_TRANSIT_PREFERENCES.preferenceOrder,
+}: TransitPreferences): TransitMode[] =>
+  [...preferenceOrder, ...allowedModes].filter(
+    (mode, index, all) =>
+      allowedModes.includes(mode) && all.indexOf(mode) === index
+  );
+
+const isAcceptable = (
+  option: RouteOption,
+  {
+    maxWalkDuration = DEFAULT_TRANSIT_PREFERENCES.maxWalkDuration,
+    maxWalkDistance = Infinity,
+  }: TransitPreferences
+): boolean =>
+  option.mode !== 'walking' ||
+  (option.duration <= maxWalkDuration && option.distance <= maxWalkDistance);
+
+/**
+ * Geocodes an endpoint unless it already is a pair of coordinates.
+ *
+ * @throws The signal's abort reason when `options.signal` aborts
+ */
+export const resolveEndpoint = (
+  endpoint: RouteEndpoint,
+  options: GeocodeOptions
+): Promise<GeoResult<Coords>> => {
+  if (typeof endpoint !== 'string') {
+    if (options.signal?.aborted) return Promise.reject(options.signal.reason);
+    return Promise.resolve({ ok: true, value: endpoint });
+  }
+  return geocode(endpoint, options);
+};
+
+/**
+ * Resolves the best transit route between two locations, given as place
+ * names or coordinates.
+ *
+ * Routes every allowed mode and picks the first one in preference order
+ * that is acceptable (walks must fit `maxWalkDuration`/`maxWalkDistance`).
+ * When none is acceptable, the most preferred mode that has a route is
+ * used anyway. With the defaults this walks when the walk takes 30 minutes
+ * or less, otherwise takes transit, otherwise drives. The `transit` mode
+ * is skipped when no transit provider is available. Geocodes and road
+ * routes are served from the geo cache when available.
  *
- * Prefers walking if the walk route is under 30 minutes, otherwise drives.
+ * When no mode could be routed because the routing services failed, the
+ * same selection runs on offline estimates of the failed modes instead,
+ * flagged `estimated: true`, unless `offlineFallback` is `false`. Modes
+ * the engine reported no path for are not estimated.
  *
- * @param fromName - Origin place name
- * @param toName - Destination place name
- * @returns The best route info or null if geocoding/routing fails
+ * @param from - Origin place name or coordinates
+ * @param to - Destination place name or coordinates
+ * @param options - Optional provider overrides, geocoding bias,
+ *   preferences and signal
+ * @returns The best route info with the other routed modes as
+ *   `alternatives`, or the failure that prevented it. A geocoding failure
+ *   is reported first; otherwise (without the offline fallback) the first
+ *   routing failure other than `no_route` in preference order, or
+ *   `no_route` when no mode has a path.
+ * @throws The signal's abort reason when `options.signal` aborts
  */
 export async function resolveTransitRoute(
-  fromName: string,
-  toName: string,
-): Promise<RouteInfo | null> {
-  const [fromCoords, toCoords] = await Promise.all([geocode(fromName), geocode(toName)]);
-  if (!fromCoords || !toCoords) return null;
+  from: RouteEndpoint,
+  to: RouteEndpoint,
+  {
+    geocoder,
+    bias,
+    router,
+    transit = getGeoConfig().transit,
+    departAt,
+    signal,
+    preferences = {},
+    offlineFallback = true,
+  }: ResolveTransitRouteOptions = {}
+): Promise<GeoResult<RouteInfo>> {
+  const [fromResult, toResult] = await Promise.all([
+    resolveEndpoint(from, { provider: geocoder, bias, signal }),
+    resolveEndpoint(to, { provider: geocoder, bias, signal }),
+  ]);
+  if (!fromResult.ok) return fromResult;
+  if (!toResult.ok) return toResult;
+  const fromCoords = fromResult.value;
+  const toCoords = toResult.value;
 
-  const walkRoute = await fetchRoute(fromCoords, toCoords, 'foot');
+  const modes = candidateModes(preferences).filter(
+    mode => mode !== 'transit' || transit
+  );
+  const results = await Promise.all(
+    modes.map(mode =>
+      mode === 'transit'
+        ? fetchTransitRoute(fromCoords, toCoords, {
+            provider: transit,
+            departAt,
+            signal,
+          })
+        : fetchRoute(fromCoords, toCoords, MODE_PROFILES[mode], {
+            provider: router,
+            signal,
+          })
+    )
+  );
 
-  if (walkRoute && walkRoute.duration <= 1800) {
-    return { mode: 'walking', ...walkRoute };
-  }
+  const options: RouteOption[] = [];
+  const failures: GeoFailure[] = [];
+  results.forEach((result, i) => {
+    if (result.ok) options.push({ mode: modes[i], ...result.value });
+    else failures.push(result);
+  });
 
-  const driveRoute = await fetchRoute(fromCoords, toCoords, 'car');
-  if (driveRoute) return { mode: 'driving', ...driveRoute };
-  if (walkRoute) return { mode: 'walking', ...walkRoute };
+  const serviceFailure = failures.find(
+    failure => failure.reason !== 'no_route'
+  );
+  if (options.length === 0 && serviceFailure && offlineFallback) {
+    // Modes whose engine reported no path are not estimated
+    results.forEach((result, i) => {
+      if (!result.ok && result.reason !== 'no_route') {
+        options.push(estimateRoute(fromCoords, toCoords, modes[i]));
+      }
+    });
+  }
 
-  return null;
+  const chosen =
+    options.find(option => isAcceptable(option, preferences)) ?? options[0];
+  if (!chosen) {
+    return (
+      serviceFailure ?? {
+        ok: false,
+        reason: 'no_route',
+        message: 'No route found for any allowed mode',
+      }
+    );
+  }
+  const alternatives = options.filter(option => option !== chosen);
+  return {
+    ok: true,
+    value: alternatives.length > 0 ? { ...chosen, alternatives } : chosen,
+  };
 }
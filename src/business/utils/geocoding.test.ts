@@ -0,0 +1,273 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useGeoCacheStore } from '../stores/geoCacheStore';
+import { configureGeo, geocode, resetGeoConfig, reverseGeocode } from './geo';
+import {
+  createGazetteerProvider,
+  createNominatimProvider,
+  createPhotonProvider,
+} from './geocoding';
+
+const mockFetchJson = (body: unknown, status = 200) =>
+  vi
+    .spyOn(globalThis, 'fetch')
+    .mockResolvedValue(new Response(JSON.stringify(body), { status }));
+
+const gazetteer = createGazetteerProvider([
+  {
+    name: 'Eiffel Tower',
+    coords: { lat: 48.8584, lng: 2.2945 },
+    aliases: ['Tour Eiffel'],
+  },
+]);
+
+describe('createGazetteerProvider', () => {
+  it('matches names case- and whitespace-insensitively', async () => {
+    const [match] = await gazetteer.search('  eiffel   TOWER ');
+    expect(match.coords).toEqual({ lat: 48.8584, lng: 2.2945 });
+    expect(match.label).toBe('Eiffel Tower');
+  });
+
+  it('matches aliases', async () => {
+    expect(await gazetteer.search('tour eiffel')).toHaveLength(1);
+  });
+
+  it('returns no candidates for unknown places', async () => {
+    expect(await gazetteer.search('Louvre')).toEqual([]);
+  });
+
+  it('returns every entry sharing a name, filtered by country', async () => {
+    const parks = createGazetteerProvider([
+      {
+        name: 'Central Park',
+        coords: { lat: 40.78, lng: -73.96 },
+        countryCode: 'US',
+      },
+      {
+        name: 'Central Park',
+        coords: { lat: 51.52, lng: -0.03 },
+        countryCode: 'GB',
+      },
+    ]);
+    expect(await parks.search('central park', { limit: 5 })).toHaveLength(2);
+    expect(
+      await parks.search('central park', {
+        limit: 5,
+        bias: { countryCodes: ['gb'] },
+      })
+    ).toEqual([
+      {
+        coords: { lat: 51.52, lng: -0.03 },
+        label: 'Central Park',
+        countryCode: 'gb',
+      },
+    ]);
+  });
+
+  it('reverse geocodes to the nearest entry within the radius', async () => {
+    expect(
+      await gazetteer.reverse?.({ lat: 48.8585, lng: 2.2946 })
+    ).toMatchObject({ label: 'Eiffel Tower' });
+    expect(await gazetteer.reverse?.({ lat: 48.87, lng: 2.29 })).toBeNull();
+  });
+});
+
+describe('createNominatimProvider', () => {
+  afterEach(() => {
+    resetGeoConfig();
+    vi.restoreAllMocks();
+  });
+
+  it('queries the configured base URL and parses results', async () => {
+    const fetchSpy = mockFetchJson([
+      { lat: '40.78', lon: '-73.96', display_name: 'Central Park' },
+    ]);
+    const provider = createNominatimProvider({
+      baseUrl: 'https://geo.example.com/',
+    });
+    const [match] = await provider.search('central park');
+    expect(fetchSpy.mock.calls[0][0]).toBe(
+      'https://geo.example.com/search?q=central%20park&format=json&addressdetails=1&limit=1'
+    );
+    expect(match).toEqual({
+      coords: { lat: 40.78, lng: -73.96 },
+      label: 'Central Park',
+    });
+  });
+
+  it('passes the bias city, country codes and viewbox', async () => {
+    const fetchSpy = mockFetchJson([
+      {
+        lat: '48.84',
+        lon: '2.33',
+        display_name: 'Jardin du Luxembourg',
+        address: { country_code: 'fr' },
+      },
+    ]);
+    const [match] = await createNominatimProvider().search('Luxembourg', {
+      bias: {
+        city: 'Paris',
+        countryCodes: ['fr'],
+        viewbox: { south: 48.8, west: 2.2, north: 48.9, east: 2.4 },
+      },
+    });
+    const url = String(fetchSpy.mock.calls[0][0]);
+    expect(url).toContain('q=Luxembourg%2C%20Paris');
+    expect(url).toContain('&countrycodes=fr');
+    expect(url).toContain('&viewbox=2.2,48.9,2.4,48.8');
+    expect(match.countryCode).toBe('fr');
+  });
+
+  it('reverse geocodes coordinates', async () => {
+    const fetchSpy = mockFetchJson({
+      lat: '48.8584',
+      lon: '2.2945',
+      display_name: 'Tour Eiffel, Paris',
+    });
+    const place = await createNominatimProvider().reverse?.({
+      lat: 48.8584,
+      lng: 2.2945,
+    });
+    expect(fetchSpy.mock.calls[0][0]).toBe(
+      'https://nominatim.openstreetmap.org/reverse?lat=48.8584&lon=2.2945&format=json'
+    );
+    expect(place).toEqual({
+      coords: { lat: 48.8584, lng: 2.2945 },
+      label: 'Tour Eiffel, Paris',
+    });
+  });
+
+  it('returns null when nothing is at the coordinates', async () => {
+    mockFetchJson({ error: 'Unable to geocode' });
+    expect(
+      await createNominatimProvider().reverse?.({ lat: 0, lng: -140 })
+    ).toBeNull();
+  });
+
+  it('throws a GeoError on HTTP errors', async () => {
+    mockFetchJson({}, 500);
+    await expect(createNominatimProvider().search('x')).rejects.toMatchObject({
+      name: 'GeoError',
+      reason: 'network',
+    });
+  });
+});
+
+describe('createPhotonProvider', () => {
+  afterEach(() => {
+    resetGeoConfig();
+    vi.restoreAllMocks();
+  });
+
+  it('parses GeoJSON features into candidates', async () => {
+    mockFetchJson({
+      features: [
+        {
+          geometry: { coordinates: [2.35, 48.85] },
+          properties: { name: 'Notre-Dame', city: 'Paris', country: 'France' },
+        },
+      ],
+    });
+    const [match] = await createPhotonProvider().search('notre dame');
+    expect(match).toEqual({
+      coords: { lat: 48.85, lng: 2.35 },
+      label: 'Notre-Dame, Paris, France',
+    });
+  });
+});
+
+describe('geocode', () => {
+  afterEach(() => {
+    resetGeoConfig();
+    useGeoCacheStore.getState().clearAll();
+    vi.restoreAllMocks();
+  });
+
+  it('uses the configured provider', async () => {
+    configureGeo({ geocoder: gazetteer });
+    expect(await geocode('Eiffel Tower')).toEqual({
+      ok: true,
+      value: { lat: 48.8584, lng: 2.2945 },
+    });
+  });
+
+  it('prefers a per-call provider override', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const result = await geocode('Tour Eiffel', { provider: gazetteer });
+    expect(result.ok).toBe(true);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('picks the candidate closest to the bias', async () => {
+    const parks = createGazetteerProvider([
+      { name: 'Central Park', coords: { lat: 40.78, lng: -73.96 } },
+      { name: 'Central Park', coords: { lat: 48.87, lng: 2.31 } },
+    ]);
+    const paris = { lat: 48.8566, lng: 2.3522 };
+    expect(await geocode('Central Park', { provider: parks })).toMatchObject({
+      value: { lat: 40.78 },
+    });
+    expect(
+      await geocode('Central Park', { provider: parks, bias: { near: paris } })
+    ).toMatchObject({ value: { lat: 48.87 } });
+    expect(
+      await geocode('Central Park', {
+        provider: parks,
+        bias: { viewbox: { south: 48.8, west: 2.2, north: 48.9, east: 2.5 } },
+      })
+    ).toMatchObject({ value: { lat: 48.87 } });
+  });
+
+  it('reports not_found when the provider has no match', async () => {
+    expect(await geocode('Nowhere', { provider: gazetteer })).toMatchObject({
+      ok: false,
+      reason: 'not_found',
+    });
+  });
+
+  it('reports network when the request cannot be sent', async () => {
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('offline'));
+    expect(await geocode('Paris')).toMatchObject({
+      ok: false,
+      reason: 'network',
+    });
+  });
+
+  it('reports bad_response for HTTP 4xx and network for HTTP 5xx', async () => {
+    mockFetchJson({}, 400);
+    expect(await geocode('a')).toMatchObject({ reason: 'bad_response' });
+    mockFetchJson({}, 503);
+    expect(await geocode('b')).toMatchObject({ reason: 'network' });
+  });
+});
+
+describe('reverseGeocode', () => {
+  afterEach(() => {
+    resetGeoConfig();
+    useGeoCacheStore.getState().clearAll();
+    vi.restoreAllMocks();
+  });
+
+  it('returns and caches the place at the coordinates', async () => {
+    const reverse = vi.spyOn(gazetteer, 'reverse');
+    const coords = { lat: 48.8584, lng: 2.2945 };
+    expect(await reverseGeocode(coords, { provider: gazetteer })).toEqual({
+      ok: true,
+      value: { coords, label: 'Eiffel Tower' },
+    });
+    await reverseGeocode(coords, { provider: gazetteer });
+    expect(reverse).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports not_found when nothing is nearby', async () => {
+    expect(
+      await reverseGeocode({ lat: 0, lng: 0 }, { provider: gazetteer })
+    ).toMatchObject({ ok: false, reason: 'not_found' });
+  });
+
+  it('reports not_found when the provider cannot reverse geocode', async () => {
+    const provider = { name: 'forward-only', search: async () => [] };
+    expect(
+      await reverseGeocode({ lat: 0, lng: 0 }, { provider })
+    ).toMatchObject({ ok: false, reason: 'not_found' });
+  });
+});
@@ -0,0 +1,330 @@
+import {
+  type BoundingBox,
+  type Coords,
+  GeoError,
+  geoFetch,
+  haversineDistance,
+  httpFailureReason,
+} from './geo';
+
+/**
+ * A single geocoding match returned by a {@link GeocodingProvider}.
+ */
+export interface GeocodeCandidate {
+  /** Coordinates of the match. */
+  coords: Coords;
+  /** Human-readable label for the match (e.g. Nominatim's `display_name`). */
+  label: string;
+  /** ISO 3166-1 alpha-2 country code (lowercase), when the backend reports it. */
+  countryCode?: string;
+}
+
+/**
+ * Geographic context that steers a lookup towards the right one of several
+ * same-named places, e.g. the destination of the trip being planned.
+ */
+export interface GeocodeBias {
+  /** City the place is expected in; appended to the query. */
+  city?: string;
+  /** Restricts matches to these ISO 3166-1 alpha-2 country codes. */
+  countryCodes?: string[];
+  /** Area the place is expected in; matches inside it rank first. */
+  viewbox?: BoundingBox;
+  /** Reference point; matches closer to it rank first. */
+  near?: Coords;
+}
+
+/**
+ * Options accepted by {@link GeocodingProvider.search}.
+ */
+export interface GeocodeSearchOptions {
+  /** Maximum number of candidates to return. Defaults to 1. */
+  limit?: number;
+  /** Context the backend should prefer matches from, where supported. */
+  bias?: GeocodeBias;
+  /** Cancels the lookup. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options accepted by {@link GeocodingProvider.reverse}.
+ */
+export interface GeocodeReverseOptions {
+  /** Cancels the lookup. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A pluggable geocoding backend.
+ *
+ * Adapters translate a free-text query into candidate coordinates, ordered
+ * best match first. They resolve to an empty array when nothing matches and
+ * throw (preferably a `GeoError`) on transport or response errors.
+ * Adapters that support reverse geocoding also implement `reverse`, which
+ * resolves to `null` when nothing is near the coordinates.
+ */
+export interface GeocodingProvider {
+  /** Stable identifier for the backend (used in cache keys and diagnostics). */
+  readonly name: string;
+  search: (
+    query: string,
+    options?: GeocodeSearchOptions
+  ) => Promise<GeocodeCandidate[]>;
+  reverse?: (
+    coords: Coords,
+    options?: GeocodeReverseOptions
+  ) => Promise<GeocodeCandidate | null>;
+}
+
+/**
+ * Normalizes a geocoding query for stable lookups (trimmed, lowercased,
+ * inner whitespace collapsed).
+ */
+export const normalizeGeocodeQuery = (query: string): string =>
+  query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Appends the bias city to a query unless the query already names it.
+ */
+const withCity = (query: string, city?: string): string =>
+  city && !normalizeGeocodeQuery(query).includes(normalizeGeocodeQuery(city))
+    ? `${query}, ${city}`
+    : query;
+
+const matchesCountry = (
+  candidate: GeocodeCandidate,
+  countryCodes?: string[]
+): boolean =>
+  !countryCodes?.length ||
+  !candidate.countryCode ||
+  countryCodes.some(
+    code => code.toLowerCase() === candidate.countryCode?.toLowerCase()
+  );
+
+const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
+
+const getJson = async (url: string, signal?: AbortSignal): Promise<unknown> => {
+  const res = await geoFetch(url, { signal });
+  if (!res.ok) {
+    throw new GeoError(
+      httpFailureReason(res.status),
+      `Geocoding request failed (${res.status})`
+    );
+  }
+  return res.json();
+};
+
+/**
+ * Configuration for {@link createNominatimProvider}.
+ */
+export interface NominatimProviderConfig {
+  /** Base URL of the Nominatim instance. Defaults to the public OSM server. */
+  baseUrl?: string;
+}
+
+/**
+ * Geocoding adapter for a Nominatim server (public or self-hosted).
+ *
+ * @example
+ * ```typescript
+ * configureGeo({
+ *   geocoder: createNominatimProvider({ baseUrl: 'https://geo.example.com' }),
+ * });
+ * ```
+ */
+export const createNominatimProvider = ({
+  baseUrl = 'https://nominatim.openstreetmap.org',
+}: NominatimProviderConfig = {}): GeocodingProvider => {
+  const root = trimTrailingSlash(baseUrl);
+  return {
+    name: `nominatim:${root}`,
+    search: async (query, { limit = 1, bias = {}, signal } = {}) => {
+      const params = [
+        `q=${encodeURIComponent(withCity(query, bias.city))}`,
+        'format=json',
+        'addressdetails=1',
+        `limit=${limit}`,
+      ];
+      if (bias.countryCodes?.length) {
+        params.push(`countrycodes=${bias.countryCodes.join(',')}`);
+      }
+      if (bias.viewbox) {
+        const { west, north, east, south } = bias.viewbox;
+        params.push(`viewbox=${west},${north},${east},${south}`);
+      }
+      const data = (await getJson(
+        `${root}/search?${params.join('&')}`,
+        signal
+      )) as Array<{
+        lat: string;
+        lon: string;
+        display_name?: string;
+        address?: { country_code?: string };
+      }>;
+      return data.map(item => ({
+        coords: { lat: parseFloat(item.lat), lng: parseFloat(item.lon) },
+        label: item.display_name ?? query,
+        countryCode: item.address?.country_code,
+      }));
+    },
+    reverse: async ({ lat, lng }, { signal } = {}) => {
+      const item = (await getJson(
+        `${root}/reverse?lat=${lat}&lon=${lng}&format=json`,
+        signal
+      )) as { lat?: string; lon?: string; display_name?: string };
+      if (item.lat === undefined || item.lon === undefined) return null;
+      return {
+        coords: { lat: parseFloat(item.lat), lng: parseFloat(item.lon) },
+        label: item.display_name ?? `${lat}, ${lng}`,
+      };
+    },
+  };
+};
+
+/**
+ * Configuration for {@link createPhotonProvider}.
+ */
+export interface PhotonProviderConfig {
+  /** Base URL of the Photon instance. Defaults to `https://photon.komoot.io`. */
+  baseUrl?: string;
+  /** Preferred language for labels (Photon `lang` parameter). */
+  lang?: string;
+}
+
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    name?: string;
+    street?: string;
+    city?: string;
+    state?: string;
+    country?: string;
+    countrycode?: string;
+  };
+}
+
+const fromPhotonFeature = (
+  { geometry, properties }: PhotonFeature,
+  fallbackLabel: string
+): GeocodeCandidate => {
+  const [lng, lat] = geometry.coordinates;
+  const label = [
+    properties.name ?? properties.street,
+    properties.city,
+    properties.state,
+    properties.country,
+  ]
+    .filter(Boolean)
+    .join(', ');
+  return {
+    coords: { lat, lng },
+    label: label || fallbackLabel,
+    countryCode: properties.countrycode?.toLowerCase(),
+  };
+};
+
+/**
+ * Geocoding adapter for a Photon server.
+ *
+ * Photon cannot filter by country, so `bias.countryCodes` is applied to
+ * the returned features instead.
+ */
+export const createPhotonProvider = ({
+  baseUrl = 'https://photon.komoot.io',
+  lang,
+}: PhotonProviderConfig = {}): GeocodingProvider => {
+  const root = trimTrailingSlash(baseUrl);
+  const langParam = lang ? `&lang=${encodeURIComponent(lang)}` : '';
+  return {
+    name: `photon:${root}`,
+    search: async (query, { limit = 1, bias = {}, signal } = {}) => {
+      const params = [
+        `q=${encodeURIComponent(withCity(query, bias.city))}`,
+        `limit=${limit}`,
+      ];
+      if (bias.near) params.push(`lat=${bias.near.lat}&lon=${bias.near.lng}`);
+      if (bias.viewbox) {
+        const { west, south, east, north } = bias.viewbox;
+        params.push(`bbox=${west},${south},${east},${north}`);
+      }
+      const data = (await getJson(
+        `${root}/api/?${params.join('&')}${langParam}`,
+        signal
+      )) as { features?: PhotonFeature[] };
+      return (data.features ?? [])
+        .map(feature => fromPhotonFeature(feature, query))
+        .filter(candidate => matchesCountry(candidate, bias.countryCodes));
+    },
+    reverse: async ({ lat, lng }, { signal } = {}) => {
+      const data = (await getJson(
+        `${root}/reverse?lat=${lat}&lon=${lng}&limit=1${langParam}`,
+        signal
+      )) as { features?: PhotonFeature[] };
+      const [feature] = data.features ?? [];
+      return feature ? fromPhotonFeature(feature, `${lat}, ${lng}`) : null;
+    },
+  };
+};
+
+/**
+ * A named place known to a {@link createGazetteerProvider} instance.
+ */
+export interface GazetteerEntry {
+  name: string;
+  coords: Coords;
+  /** Alternative names that resolve to the same place. */
+  aliases?: string[];
+  /** ISO 3166-1 alpha-2 country code, used by `bias.countryCodes`. */
+  countryCode?: string;
+}
+
+/**
+ * In-memory geocoding adapter backed by a fixed list of places.
+ *
+ * Matches queries by normalized name or alias; several entries may share
+ * a name, in which case all of them are candidates, in list order. The
+ * bias city is ignored. Reverse lookups return the
+ * nearest entry within `reverseRadius` metres. Useful in tests, offline
+ * builds, and for curated points of interest.
+ */
+export const createGazetteerProvider = (
+  entries: GazetteerEntry[],
+  name = 'gazetteer',
+  reverseRadius = 250
+): GeocodingProvider => {
+  const index = new Map<string, GazetteerEntry[]>();
+  for (const entry of entries) {
+    for (const key of [entry.name, ...(entry.aliases ?? [])]) {
+      const normalized = normalizeGeocodeQuery(key);
+      index.set(normalized, [...(index.get(normalized) ?? []), entry]);
+    }
+  }
+  const toCandidate = (entry: GazetteerEntry): GeocodeCandidate => ({
+    coords: entry.coords,
+    label: entry.name,
+    countryCode: entry.countryCode?.toLowerCase(),
+  });
+  return {
+    name,
+    search: async (query, { limit = 1, bias = {}, signal } = {}) => {
+      if (signal?.aborted) throw signal.reason;
+      return (index.get(normalizeGeocodeQuery(query)) ?? [])
+        .map(toCandidate)
+        .filter(candidate => matchesCountry(candidate, bias.countryCodes))
+        .slice(0, Math.max(0, limit));
+    },
+    reverse: async (coords, { signal } = {}) => {
+      if (signal?.aborted) throw signal.reason;
+      let nearest: GazetteerEntry | undefined;
+      let nearestDistance = reverseRadius;
+      for (const entry of entries) {
+        const distance = haversineDistance(coords, entry.coords);
+        if (distance <= nearestDistance) {
+          nearest = entry;
+          nearestDistance = distance;
+        }
+      }
+      return nearest ? toCandidate(nearest) : null;
+    },
+  };
+};
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { haversineDistance, type RouteInfo } from './geo';
+import {
+  decodePolyline,
+  distanceToPath,
+  encodePolyline,
+  pathBounds,
+  pathLength,
+  routeToGeoJson,
+  simplifyPath,
+} from './geometry';
+
+describe('polyline codec', () => {
+  it('matches the reference example of the polyline algorithm', () => {
+    const coords: [number, number][] = [
+      [38.5, -120.2],
+      [40.7, -120.95],
+      [43.252, -126.453],
+    ];
+    expect(encodePolyline(coords)).toBe('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+    expect(decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).toEqual(coords);
+  });
+
+  it('round-trips at precision 6', () => {
+    const coords: [number, number][] = [
+      [48.858405, 2.294551],
+      [48.860611, 2.337644],
+    ];
+    expect(decodePolyline(encodePolyline(coords, 6), 6)).toEqual(coords);
+  });
+
+  it('rounds to the requested precision', () => {
+    expect(decodePolyline(encodePolyline([[48.8584051, 2.2945]]))).toEqual([
+      [48.85841, 2.2945],
+    ]);
+  });
+});
+
+describe('simplifyPath', () => {
+  it('drops points closer to the line than the tolerance', () => {
+    const path: [number, number][] = [
+      [48.85, 2.3],
+      [48.85001, 2.305], // ~1 m off the line
+      [48.85, 2.31],
+      [48.86, 2.31], // a real corner
+    ];
+    expect(simplifyPath(path, 5)).toEqual([path[0], path[2], path[3]]);
+    expect(simplifyPath(path, 0.5)).toEqual(path);
+  });
+
+  it('keeps short paths as they are', () => {
+    expect(simplifyPath([[1, 2]], 100)).toEqual([[1, 2]]);
+  });
+});
+
+describe('pathBounds and pathLength', () => {
+  const path: [number, number][] = [
+    [48.85, 2.3],
+    [48.86, 2.29],
+    [48.855, 2.32],
+  ];
+
+  it('computes the bounding box', () => {
+    expect(pathBounds(path)).toEqual({
+      south: 48.85,
+      west: 2.29,
+      north: 48.86,
+      east: 2.32,
+    });
+    expect(pathBounds([])).toBeNull();
+  });
+
+  it('sums the great-circle length of the segments', () => {
+    const expected =
+      haversineDistance({ lat: 48.85, lng: 2.3 }, { lat: 48.86, lng: 2.29 }) +
+      haversineDistance({ lat: 48.86, lng: 2.29 }, { lat: 48.855, lng: 2.32 });
+    expect(pathLength(path)).toBeCloseTo(expected);
+    expect(pathLength([])).toBe(0);
+  });
+});
+
+describe('distanceToPath', () => {
+  it('measures to the nearest segment', () => {
+    // 0.001° of latitude north of an east-west path: about 111 m
+    const path: [number, number][] = [
+      [48.85, 2.3],
+      [48.85, 2.31],
+      [48.85, 2.32],
+    ];
+    expect(distanceToPath({ lat: 48.851, lng: 2.315 }, path)).toBeCloseTo(
+      111.2,
+      0
+    );
+    expect(distanceToPath({ lat: 48.85, lng: 2.305 }, path)).toBeCloseTo(0);
+  });
+
+  it('handles single-point and empty paths', () => {
+    const point = { lat: 48.86, lng: 2.3 };
+    expect(distanceToPath(point, [[48.85, 2.3]])).toBeCloseTo(
+      haversineDistance(point, { lat: 48.85, lng: 2.3 })
+    );
+    expect(distanceToPath(point, [])).toBe(Infinity);
+  });
+});
+
+describe('routeToGeoJson', () => {
+  const route: RouteInfo = {
+    mode: 'walking',
+    duration: 600,
+    distance: 800,
+    coords: [
+      [48.85, 2.3],
+      [48.85001, 2.305],
+      [48.85, 2.31],
+    ],
+  };
+
+  it('builds a LineString feature in [lng, lat] order', () => {
+    expect(routeToGeoJson(route)).toEqual({
+      type: 'Feature',
+      bbox: [2.3, 48.85, 2.31, 48.85001],
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [2.3, 48.85],
+          [2.305, 48.85001],
+          [2.31, 48.85],
+        ],
+      },
+      properties: { mode: 'walking', duration: 600, distance: 800 },
+    });
+  });
+
+  it('simplifies the geometry and flags estimates', () => {
+    const feature = routeToGeoJson(
+      { ...route, estimated: true },
+      { simplify: 10 }
+    );
+    expect(feature.geometry.coordinates).toHaveLength(2);
+    expect(feature.properties.estimated).toBe(true);
+  });
+});
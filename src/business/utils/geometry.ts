@@ -0,0 +1,271 @@
+import {
+  type BoundingBox,
+  type Coords,
+  haversineDistance,
+  type RouteOption,
+} from './geo';
+
+/**
+ * A path as `[lat, lng]` pairs, as in `RouteResult.coords`.
+ */
+export type LatLngPath = [number, number][];
+
+/**
+ * Decodes an encoded polyline (Google polyline algorithm) into
+ * `[lat, lng]` pairs.
+ *
+ * @param encoded - The encoded polyline
+ * @param precision - Decimal places of the encoding: 5 for Google and
+ *   OSRM, 6 for Valhalla. Defaults to 5.
+ */
+export const decodePolyline = (encoded: string, precision = 5): LatLngPath => {
+  const factor = 10 ** precision;
+  const coords: LatLngPath = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+  const next = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+  while (index < encoded.length) {
+    lat += next();
+    lng += next();
+    coords.push([lat / factor, lng / factor]);
+  }
+  return coords;
+};
+
+const encodeValue = (value: number): string => {
+  let rest = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+  while (rest >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (rest & 0x1f)) + 63);
+    rest >>= 5;
+  }
+  return encoded + String.fromCharCode(rest + 63);
+};
+
+/**
+ * Encodes `[lat, lng]` pairs as a polyline (Google polyline algorithm).
+ *
+ * @param coords - The path to encode
+ * @param precision - Decimal places to keep: 5 for Google and OSRM, 6 for
+ *   Valhalla. Defaults to 5.
+ */
+export const encodePolyline = (coords: LatLngPath, precision = 5): string => {
+  const factor = 10 ** precision;
+  let lat = 0;
+  let lng = 0;
+  let encoded = '';
+  for (const [pointLat, pointLng] of coords) {
+    const nextLat = Math.round(pointLat * factor);
+    const nextLng = Math.round(pointLng * factor);
+    encoded += encodeValue(nextLat - lat) + encodeValue(nextLng - lng);
+    lat = nextLat;
+    lng = nextLng;
+  }
+  return encoded;
+};
+
+const METRES_PER_DEGREE = 111195;
+
+/**
+ * Distance in metres from `point` to the segment `a`-`b`, on a local
+ * equirectangular projection (accurate for route-sized segments).
+ */
+const segmentDistance = (
+  [lat, lng]: [number, number],
+  [aLat, aLng]: [number, number],
+  [bLat, bLng]: [number, number]
+): number => {
+  const scale = Math.cos((aLat * Math.PI) / 180);
+  const x = (lng - aLng) * scale;
+  const y = lat - aLat;
+  const dx = (bLng - aLng) * scale;
+  const dy = bLat - aLat;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, (x * dx + y * dy) / lengthSquared));
+  return Math.hypot(x - t * dx, y - t * dy) * METRES_PER_DEGREE;
+};
+
+/**
+ * Simplifies a path with the Douglas–Peucker algorithm, dropping points
+ * that deviate less than `tolerance` metres from the simplified line. The
+ * first and last points are always kept.
+ *
+ * @param coords - The path to simplify
+ * @param tolerance - Maximum deviation in metres
+ */
+export const simplifyPath = (
+  coords: LatLngPath,
+  tolerance: number
+): LatLngPath => {
+  if (coords.length <= 2) return [...coords];
+  const keep = new Array<boolean>(coords.length).fill(false);
+  keep[0] = true;
+  keep[coords.length - 1] = true;
+  const ranges: [number, number][] = [[0, coords.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop() as [number, number];
+    let farthest = -1;
+    let farthestDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = segmentDistance(coords[i], coords[first], coords[last]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+  return coords.filter((_, i) => keep[i]);
+};
+
+/**
+ * Distance in metres from a point to the nearest point of a path, or
+ * `Infinity` for an empty path.
+ *
+ * @param point - The point, e.g. the device position
+ * @param coords - The path, e.g. `RouteResult.coords`
+ */
+export const distanceToPath = (point: Coords, coords: LatLngPath): number => {
+  if (coords.length === 0) return Infinity;
+  if (coords.length === 1) {
+    const [lat, lng] = coords[0];
+    return haversineDistance(point, { lat, lng });
+  }
+  return coords
+    .slice(1)
+    .reduce(
+      (nearest, b, i) =>
+        Math.min(
+          nearest,
+          segmentDistance([point.lat, point.lng], coords[i], b)
+        ),
+      Infinity
+    );
+};
+
+/**
+ * Returns the smallest box containing the path, or `null` for an empty
+ * path.
+ */
+export const pathBounds = (coords: LatLngPath): BoundingBox | null => {
+  if (coords.length === 0) return null;
+  const box: BoundingBox = {
+    south: Infinity,
+    west: Infinity,
+    north: -Infinity,
+    east: -Infinity,
+  };
+  for (const [lat, lng] of coords) {
+    box.south = Math.min(box.south, lat);
+    box.north = Math.max(box.north, lat);
+    box.west = Math.min(box.west, lng);
+    box.east = Math.max(box.east, lng);
+  }
+  return box;
+};
+
+/**
+ * Length of a path in metres along the great circle between its points.
+ */
+export const pathLength = (coords: LatLngPath): number =>
+  coords.slice(1).reduce((sum, [lat, lng], i) => {
+    const [prevLat, prevLng] = coords[i];
+    const from: Coords = { lat: prevLat, lng: prevLng };
+    return sum + haversineDistance(from, { lat, lng });
+  }, 0);
+
+/**
+ * A GeoJSON bounding box: `[west, south, east, north]`.
+ */
+export type GeoJsonBBox = [number, number, number, number];
+
+/**
+ * Converts a {@link BoundingBox} to GeoJSON order.
+ */
+export const toGeoJsonBBox = ({
+  west,
+  south,
+  east,
+  north,
+}: BoundingBox): GeoJsonBBox => [west, south, east, north];
+
+/**
+ * Properties of the feature produced by {@link routeToGeoJson}.
+ */
+export interface RouteFeatureProperties {
+  mode: RouteOption['mode'];
+  /** Travel time in seconds. */
+  duration: number;
+  /** Travel distance in metres. */
+  distance: number;
+  /** Set for offline estimates. */
+  estimated?: true;
+}
+
+/**
+ * A GeoJSON `LineString` feature for a route. Coordinates are
+ * `[lng, lat]`, as GeoJSON requires.
+ */
+export interface RouteFeature {
+  type: 'Feature';
+  bbox?: GeoJsonBBox;
+  geometry: { type: 'LineString'; coordinates: [number, number][] };
+  properties: RouteFeatureProperties;
+}
+
+/**
+ * Options accepted by {@link routeToGeoJson}.
+ */
+export interface RouteToGeoJsonOptions {
+  /** Simplifies the geometry to this tolerance in metres first. */
+  simplify?: number;
+}
+
+/**
+ * Converts a route into a GeoJSON `LineString` feature with its mode,
+ * duration and distance as properties.
+ *
+ * @param route - The route, e.g. a `RouteInfo`
+ * @param options - Optional simplification tolerance
+ */
+export const routeToGeoJson = (
+  route: RouteOption,
+  { simplify }: RouteToGeoJsonOptions = {}
+): RouteFeature => {
+  const coords =
+    simplify === undefined
+      ? route.coords
+      : simplifyPath(route.coords, simplify);
+  const bounds = pathBounds(coords);
+  return {
+    type: 'Feature',
+    ...(bounds ? { bbox: toGeoJsonBBox(bounds) } : {}),
+    geometry: {
+      type: 'LineString',
+      coordinates: coords.map(([lat, lng]) => [lng, lat]),
+    },
+    properties: {
+      mode: route.mode,
+      duration: route.duration,
+      distance: route.distance,
+      ...(route.estimated ? { estimated: true } : {}),
+    },
+  };
+};
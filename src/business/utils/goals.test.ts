@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import type { History } from '@sudobility/superguide_types';
+import type { Goal } from '../stores/goalsStore';
+import { calculateGoalProgress } from './goals';
+
+const makeHistory = (overrides: Partial<History> = {}): History => ({
+  id: 'hist-1',
+  user_id: 'user-1',
+  datetime: '2024-01-01T00:00:00Z',
+  value: 100,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const makeGoal = (overrides: Partial<Goal> = {}): Goal => ({
+  id: 'goal-1',
+  target: 500,
+  period: 'month',
+  startDate: '2025-01-01',
+  ...overrides,
+});
+
+const on = (date: string, value: number, id = date): History =>
+  makeHistory({ id, datetime: `${date}T12:00:00Z`, value });
+
+// April 2025 has 30 days
+const options = { timeZone: 'UTC', now: new Date('2025-04-10T18:00:00Z') };
+
+describe('calculateGoalProgress', () => {
+  it('should sum the current period and project the pace', () => {
+    const histories = [
+      on('2025-03-31', 1000),
+      on('2025-04-02', 120),
+      on('2025-04-09', 80),
+      on('2025-05-01', 1000),
+    ];
+    expect(calculateGoalProgress(makeGoal(), histories, options)).toEqual({
+      goal: makeGoal(),
+      periodStart: '2025-04-01',
+      periodEnd: '2025-04-30',
+      current: 200,
+      remaining: 300,
+      percentage: 40,
+      daysElapsed: 10,
+      daysRemaining: 21,
+      requiredDailyPace: 300 / 21,
+      projectedTotal: 600,
+      projectedCompletionDate: '2025-04-25',
+      status: 'on_track',
+    });
+  });
+
+  it('should report a goal behind pace', () => {
+    const progress = calculateGoalProgress(
+      makeGoal(),
+      [on('2025-04-01', 50)],
+      options
+    );
+    expect(progress.projectedTotal).toBe(150);
+    expect(progress.projectedCompletionDate).toBe('2025-07-09');
+    expect(progress.status).toBe('behind');
+  });
+
+  it('should report when a completed goal was reached', () => {
+    const histories = [
+      on('2025-04-08', 300, 'b'),
+      on('2025-04-03', 250, 'a'),
+      on('2025-04-09', 10, 'c'),
+    ];
+    const progress = calculateGoalProgress(makeGoal(), histories, options);
+    expect(progress.status).toBe('completed');
+    expect(progress.remaining).toBe(0);
+    expect(progress.requiredDailyPace).toBe(0);
+    expect(progress.percentage).toBeCloseTo(112);
+    expect(progress.projectedCompletionDate).toBe('2025-04-08');
+  });
+
+  it('should have no completion date without histories', () => {
+    const progress = calculateGoalProgress(makeGoal(), [], options);
+    expect(progress.projectedCompletionDate).toBeNull();
+    expect(progress.status).toBe('behind');
+  });
+
+  it('should only count from the start date in the first period', () => {
+    const goal = makeGoal({ startDate: '2025-04-06' });
+    const progress = calculateGoalProgress(
+      goal,
+      [on('2025-04-02', 400), on('2025-04-08', 100)],
+      options
+    );
+    expect(progress.periodStart).toBe('2025-04-06');
+    expect(progress.current).toBe(100);
+    expect(progress.daysElapsed).toBe(5);
+    expect(progress.daysRemaining).toBe(21);
+    expect(progress.projectedTotal).toBe(500);
+    expect(progress.status).toBe('on_track');
+  });
+
+  it('should report the first period of a goal not started yet', () => {
+    const goal = makeGoal({ startDate: '2025-05-15', target: 170 });
+    const progress = calculateGoalProgress(goal, [], options);
+    expect(progress).toMatchObject({
+      periodStart: '2025-05-15',
+      periodEnd: '2025-05-31',
+      daysElapsed: 0,
+      daysRemaining: 17,
+      requiredDailyPace: 10,
+      status: 'upcoming',
+    });
+  });
+
+  it('should use weekly and yearly periods', () => {
+    const weekly = calculateGoalProgress(
+      makeGoal({ period: 'week', target: 70 }),
+      [on('2025-04-07', 30), on('2025-04-06', 100)],
+      options
+    );
+    expect(weekly).toMatchObject({
+      periodStart: '2025-04-07',
+      periodEnd: '2025-04-13',
+      current: 30,
+      daysElapsed: 4,
+      daysRemaining: 4,
+      requiredDailyPace: 10,
+    });
+
+    const yearly = calculateGoalProgress(
+      makeGoal({ period: 'year' }),
+      [on('2025-02-01', 100)],
+      options
+    );
+    expect(yearly.periodStart).toBe('2025-01-01');
+    expect(yearly.periodEnd).toBe('2025-12-31');
+    expect(yearly.current).toBe(100);
+  });
+
+  it('should decide today in the time zone', () => {
+    const lateEvening = {
+      timeZone: 'UTC',
+      now: new Date('2025-04-30T23:30:00Z'),
+    };
+    expect(calculateGoalProgress(makeGoal(), [], lateEvening).periodStart).toBe(
+      '2025-04-01'
+    );
+    expect(
+      calculateGoalProgress(makeGoal(), [], {
+        ...lateEvening,
+        timeZone: 'Europe/Paris',
+      }).periodStart
+    ).toBe('2025-05-01');
+  });
+});
@@ -0,0 +1,163 @@
+import type { History } from '@sudobility/superguide_types';
+import type { Goal } from '../stores/goalsStore';
+import { calculatePercentage, calculateSum } from './calculations';
+import { bucketStart, historyDate, nextBucketStart } from './historySeries';
+import { deviceTimeZone, toZonedTime } from './timeZone';
+
+/**
+ * Where a goal stands in its current period.
+ *
+ * - `upcoming`: the goal's start date has not come yet
+ * - `behind`: at the pace so far, the target will not be reached in time
+ * - `on_track`: at the pace so far, the target will be reached in time
+ * - `completed`: the target has been reached this period
+ */
+export type GoalStatus = 'upcoming' | 'behind' | 'on_track' | 'completed';
+
+/**
+ * Progress towards a goal in its current period.
+ */
+export interface GoalProgress {
+  goal: Goal;
+  /** First counted day of the period as `YYYY-MM-DD`. */
+  periodStart: string;
+  /** Last day of the period as `YYYY-MM-DD`. */
+  periodEnd: string;
+  /** Sum of the period's history values so far. */
+  current: number;
+  /** What is left to reach the target; `0` once reached. */
+  remaining: number;
+  /** `current` as a percentage of the target. */
+  percentage: number;
+  /** Days of the period up to and including today. */
+  daysElapsed: number;
+  /** Days of the period from today (included) to its end. */
+  daysRemaining: number;
+  /** What is needed per remaining day to reach the target. */
+  requiredDailyPace: number;
+  /** The period's sum if the daily average so far holds. */
+  projectedTotal: number;
+  /**
+   * The day the target was reached, or will be at the daily average so
+   * far (possibly after the period ends), as `YYYY-MM-DD`. `null` when
+   * nothing has been recorded this period.
+   */
+  projectedCompletionDate: string | null;
+  status: GoalStatus;
+}
+
+/**
+ * Options accepted by {@link calculateGoalProgress}.
+ */
+export interface CalculateGoalProgressOptions {
+  /**
+   * IANA time zone in which `datetime`s are assigned to days. Defaults to
+   * the device's.
+   */
+  timeZone?: string;
+  /** The current time, which decides the current period. Defaults to now. */
+  now?: Date;
+}
+
+const MS_PER_DAY = 86400000;
+
+const dayMs = (date: string): number => Date.parse(`${date}T00:00Z`);
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((dayMs(to) - dayMs(from)) / MS_PER_DAY);
+
+const addDays = (date: string, days: number): string =>
+  new Date(dayMs(date) + days * MS_PER_DAY).toISOString().slice(0, 10);
+
+/**
+ * Calculates the progress towards a goal in the period containing today,
+ * summing the period's histories with `calculateSum`. Before the goal's
+ * start date, its first period is reported as `upcoming`.
+ *
+ * @param goal - The goal; its `target` should be positive
+ * @param histories - The user's histories, in any order
+ * @param options - Time zone and current time
+ * @returns The progress, pace, projection and status
+ * @throws RangeError when `timeZone` is not a valid IANA zone
+ *
+ * @example
+ * ```typescript
+ * // 500 per month; 200 recorded by the 10th of a 30-day month
+ * const progress = calculateGoalProgress(goal, histories);
+ * // progress.requiredDailyPace: 300 / 21 days left ≈ 14.3
+ * // progress.projectedTotal: 20 per day * 30 days = 600
+ * // progress.status: 'on_track'
+ * ```
+ */
+export const calculateGoalProgress = (
+  goal: Goal,
+  histories: History[],
+  {
+    timeZone = deviceTimeZone(),
+    now = new Date(),
+  }: CalculateGoalProgressOptions = {}
+): GoalProgress => {
+  const today = toZonedTime(now, timeZone).date;
+  const upcoming = today < goal.startDate;
+  const anchor = bucketStart(upcoming ? goal.startDate : today, goal.period);
+  const periodStart = anchor < goal.startDate ? goal.startDate : anchor;
+  const nextPeriod = nextBucketStart(anchor, goal.period);
+
+  const periodHistories = histories
+    .map(history => ({ history, date: historyDate(history, timeZone) }))
+    .filter(
+      ({ date }) => date !== null && date >= periodStart && date < nextPeriod
+    )
+    .sort((a, b) => (a.date as string).localeCompare(b.date as string))
+    .map(({ history }) => history);
+
+  const current = calculateSum(periodHistories);
+  const remaining = Math.max(0, goal.target - current);
+  const totalDays = daysBetween(periodStart, nextPeriod);
+  const daysElapsed = upcoming ? 0 : daysBetween(periodStart, today) + 1;
+  const daysRemaining = totalDays - daysElapsed + (upcoming ? 0 : 1);
+  const dailyAverage = daysElapsed > 0 ? current / daysElapsed : 0;
+  const projectedTotal = dailyAverage * totalDays;
+
+  let projectedCompletionDate: string | null = null;
+  if (current > 0 && current >= goal.target) {
+    // The day the running sum crossed the target
+    let sum = 0;
+    for (const history of periodHistories) {
+      sum += history.value;
+      if (sum >= goal.target) {
+        projectedCompletionDate = historyDate(history, timeZone);
+        break;
+      }
+    }
+  } else if (dailyAverage > 0) {
+    projectedCompletionDate = addDays(
+      today,
+      Math.ceil(remaining / dailyAverage)
+    );
+  }
+
+  let status: GoalStatus;
+  if (current >= goal.target) {
+    status = 'completed';
+  } else if (upcoming) {
+    status = 'upcoming';
+  } else {
+    status = projectedTotal >= goal.target ? 'on_track' : 'behind';
+  }
+
+  return {
+    goal,
+    periodStart,
+    periodEnd: addDays(nextPeriod, -1),
+    current,
+    remaining,
+    percentage: calculatePercentage(periodHistories, goal.target),
+    daysElapsed,
+    daysRemaining,
+    requiredDailyPace: remaining / daysRemaining,
+    projectedTotal,
+    projectedCompletionDate,
+    status,
+  };
+};
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import type { History } from '@sudobility/superguide_types';
+import {
+  bucketHistories,
+  bucketStart,
+  historyDate,
+  nextBucketStart,
+} from './historySeries';
+
+const makeHistory = (overrides: Partial<History> = {}): History => ({
+  id: 'hist-1',
+  user_id: 'user-1',
+  datetime: '2024-01-01T00:00:00Z',
+  value: 100,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('bucketStart', () => {
+  it('should start weeks on Monday', () => {
+    expect(bucketStart('2025-01-15', 'week')).toBe('2025-01-13');
+    expect(bucketStart('2025-01-13', 'week')).toBe('2025-01-13');
+    expect(bucketStart('2025-01-19', 'week')).toBe('2025-01-13');
+  });
+
+  it('should start months and years on their first day', () => {
+    expect(bucketStart('2025-03-31', 'month')).toBe('2025-03-01');
+    expect(bucketStart('2025-03-31', 'year')).toBe('2025-01-01');
+    expect(bucketStart('2025-03-31', 'day')).toBe('2025-03-31');
+  });
+});
+
+describe('nextBucketStart', () => {
+  it('should step by the granularity', () => {
+    expect(nextBucketStart('2025-02-28', 'day')).toBe('2025-03-01');
+    expect(nextBucketStart('2024-12-30', 'week')).toBe('2025-01-06');
+    expect(nextBucketStart('2025-12-01', 'month')).toBe('2026-01-01');
+    expect(nextBucketStart('2025-01-01', 'year')).toBe('2026-01-01');
+  });
+});
+
+describe('historyDate', () => {
+  it('should read the date in the time zone', () => {
+    const history = makeHistory({ datetime: '2025-01-15T23:30:00Z' });
+    expect(historyDate(history, 'UTC')).toBe('2025-01-15');
+    expect(historyDate(history, 'Europe/Paris')).toBe('2025-01-16');
+    expect(historyDate(history, 'America/New_York')).toBe('2025-01-15');
+  });
+
+  it('should return null for an invalid datetime', () => {
+    expect(historyDate(makeHistory({ datetime: 'soon' }), 'UTC')).toBeNull();
+  });
+});
+
+describe('bucketHistories', () => {
+  const histories = [
+    makeHistory({ id: '1', datetime: '2025-01-03T10:00:00Z', value: 10 }),
+    makeHistory({ id: '2', datetime: '2025-01-01T08:00:00Z', value: 5 }),
+    makeHistory({ id: '3', datetime: '2025-01-03T18:00:00Z', value: 20 }),
+  ];
+
+  it('should return no buckets without histories or a range', () => {
+    expect(bucketHistories([], 'day', { timeZone: 'UTC' })).toEqual([]);
+  });
+
+  it('should sum, count and total by day, filling empty days', () => {
+    expect(bucketHistories(histories, 'day', { timeZone: 'UTC' })).toEqual([
+      { start: '2025-01-01', sum: 5, count: 1, runningTotal: 5 },
+      { start: '2025-01-02', sum: 0, count: 0, runningTotal: 5 },
+      { start: '2025-01-03', sum: 30, count: 2, runningTotal: 35 },
+    ]);
+  });
+
+  it('should assign histories to days in the time zone', () => {
+    const late = [
+      makeHistory({ id: '1', datetime: '2025-01-01T23:30:00Z', value: 1 }),
+    ];
+    expect(
+      bucketHistories(late, 'day', { timeZone: 'Asia/Tokyo' })[0].start
+    ).toBe('2025-01-02');
+  });
+
+  it('should bucket by week, month and year', () => {
+    const spread = [
+      makeHistory({ id: '1', datetime: '2024-12-30T12:00:00Z', value: 1 }),
+      makeHistory({ id: '2', datetime: '2025-01-05T12:00:00Z', value: 2 }),
+      makeHistory({ id: '3', datetime: '2025-03-10T12:00:00Z', value: 4 }),
+    ];
+    const options = { timeZone: 'UTC' };
+    expect(
+      bucketHistories(spread, 'week', options).map(b => [b.start, b.sum])
+    ).toEqual([
+      ['2024-12-30', 3],
+      ['2025-01-06', 0],
+      ['2025-01-13', 0],
+      ['2025-01-20', 0],
+      ['2025-01-27', 0],
+      ['2025-02-03', 0],
+      ['2025-02-10', 0],
+      ['2025-02-17', 0],
+      ['2025-02-24', 0],
+      ['2025-03-03', 0],
+      ['2025-03-10', 4],
+    ]);
+    expect(bucketHistories(spread, 'month', options)).toEqual([
+      { start: '2024-12-01', sum: 1, count: 1, runningTotal: 1 },
+      { start: '2025-01-01', sum: 2, count: 1, runningTotal: 3 },
+      { start: '2025-02-01', sum: 0, count: 0, runningTotal: 3 },
+      { start: '2025-03-01', sum: 4, count: 1, runningTotal: 7 },
+    ]);
+    expect(bucketHistories(spread, 'year', options)).toEqual([
+      { start: '2024-01-01', sum: 1, count: 1, runningTotal: 1 },
+      { start: '2025-01-01', sum: 6, count: 2, runningTotal: 7 },
+    ]);
+  });
+
+  it('should fill a range and carry earlier histories into the total', () => {
+    expect(
+      bucketHistories(histories, 'day', {
+        timeZone: 'UTC',
+        from: '2025-01-02',
+        to: '2025-01-04',
+      })
+    ).toEqual([
+      { start: '2025-01-02', sum: 0, count: 0, runningTotal: 5 },
+      { start: '2025-01-03', sum: 30, count: 2, runningTotal: 35 },
+      { start: '2025-01-04', sum: 0, count: 0, runningTotal: 35 },
+    ]);
+  });
+
+  it('should leave out histories after the range', () => {
+    expect(
+      bucketHistories(histories, 'day', { timeZone: 'UTC', to: '2025-01-02' })
+    ).toEqual([
+      { start: '2025-01-01', sum: 5, count: 1, runningTotal: 5 },
+      { start: '2025-01-02', sum: 0, count: 0, runningTotal: 5 },
+    ]);
+  });
+
+  it('should fill a range without histories', () => {
+    expect(
+      bucketHistories([], 'month', {
+        timeZone: 'UTC',
+        from: '2025-01-15',
+        to: '2025-02-15',
+      })
+    ).toEqual([
+      { start: '2025-01-01', sum: 0, count: 0, runningTotal: 0 },
+      { start: '2025-02-01', sum: 0, count: 0, runningTotal: 0 },
+    ]);
+  });
+
+  it('should ignore invalid datetimes', () => {
+    const withInvalid = [...histories, makeHistory({ datetime: 'never' })];
+    expect(bucketHistories(withInvalid, 'year', { timeZone: 'UTC' })).toEqual([
+      { start: '2025-01-01', sum: 35, count: 3, runningTotal: 35 },
+    ]);
+  });
+});
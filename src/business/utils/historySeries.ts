@@ -0,0 +1,198 @@
+import type { History } from '@sudobility/superguide_types';
+import { calculateSum } from './calculations';
+import { deviceTimeZone, toZonedTime } from './timeZone';
+
+/**
+ * The length of the buckets histories are grouped into. Weeks start on
+ * Monday (ISO 8601).
+ */
+export type HistoryGranularity = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * The histories of one bucket, summarized.
+ */
+export interface HistoryBucket {
+  /** First day of the bucket as `YYYY-MM-DD`, in the series' time zone. */
+  start: string;
+  /** Sum of the bucket's `value`s. */
+  sum: number;
+  /** Number of histories in the bucket. */
+  count: number;
+  /**
+   * Sum of every history up to the end of the bucket, including those
+   * before the series' `from` date.
+   */
+  runningTotal: number;
+}
+
+/**
+ * Options accepted by {@link bucketHistories}.
+ */
+export interface BucketHistoriesOptions {
+  /**
+   * IANA time zone in which `datetime`s are assigned to days. Defaults to
+   * the device's.
+   */
+  timeZone?: string;
+  /**
+   * First date of the series as `YYYY-MM-DD`; its bucket is the first.
+   * Defaults to the date of the earliest history.
+   */
+  from?: string;
+  /**
+   * Last date of the series as `YYYY-MM-DD`; its bucket is the last.
+   * Defaults to the date of the latest history.
+   */
+  to?: string;
+}
+
+const MS_PER_DAY = 86400000;
+
+const toDateString = (ms: number): string =>
+  new Date(ms).toISOString().slice(0, 10);
+
+const bucketStartMs = (date: string, granularity: HistoryGranularity) => {
+  const day = new Date(Date.parse(`${date}T00:00Z`));
+  switch (granularity) {
+    case 'day':
+      return day.getTime();
+    case 'week':
+      return day.getTime() - ((day.getUTCDay() + 6) % 7) * MS_PER_DAY;
+    case 'month':
+      return Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1);
+    case 'year':
+      return Date.UTC(day.getUTCFullYear(), 0, 1);
+  }
+};
+
+const nextBucketStartMs = (ms: number, granularity: HistoryGranularity) => {
+  const day = new Date(ms);
+  switch (granularity) {
+    case 'day':
+      return ms + MS_PER_DAY;
+    case 'week':
+      return ms + 7 * MS_PER_DAY;
+    case 'month':
+      return Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 1);
+    case 'year':
+      return Date.UTC(day.getUTCFullYear() + 1, 0, 1);
+  }
+};
+
+/**
+ * The first day of the bucket containing a date.
+ *
+ * @example bucketStart("2025-01-15", 'week') => "2025-01-13"
+ * @example bucketStart("2025-01-15", 'month') => "2025-01-01"
+ *
+ * @param date - The date as `YYYY-MM-DD`
+ * @param granularity - The bucket length
+ * @returns The bucket's first day as `YYYY-MM-DD`
+ */
+export const bucketStart = (
+  date: string,
+  granularity: HistoryGranularity
+): string => toDateString(bucketStartMs(date, granularity));
+
+/**
+ * The first day of the bucket after the one starting on `start`.
+ *
+ * @example nextBucketStart("2025-01-01", 'month') => "2025-02-01"
+ *
+ * @param start - A bucket's first day as `YYYY-MM-DD`
+ * @param granularity - The bucket length
+ */
+export const nextBucketStart = (
+  start: string,
+  granularity: HistoryGranularity
+): string =>
+  toDateString(nextBucketStartMs(Date.parse(`${start}T00:00Z`), granularity));
+
+/**
+ * The day a history falls on in a time zone, or `null` when its
+ * `datetime` is not a valid date.
+ *
+ * @param history - The history
+ * @param timeZone - IANA time zone. Defaults to the device's.
+ * @returns The date as `YYYY-MM-DD`
+ */
+export const historyDate = (
+  history: History,
+  timeZone: string = deviceTimeZone()
+): string | null => {
+  const instant = new Date(history.datetime);
+  if (Number.isNaN(instant.getTime())) return null;
+  return toZonedTime(instant, timeZone).date;
+};
+
+/**
+ * Groups histories into consecutive day, week, month or year buckets by
+ * their `datetime`, for charts. Every bucket between the first and the
+ * last is present, with a `sum` and `count` of 0 when nothing happened.
+ * Histories after `to` are left out, and those with an invalid
+ * `datetime` are ignored.
+ *
+ * @param histories - The histories, in any order
+ * @param granularity - The bucket length
+ * @param options - Time zone and date range
+ * @returns The buckets, oldest first; empty when there are no histories
+ *   and no range
+ * @throws RangeError when `timeZone` is not a valid IANA zone
+ *
+ * @example
+ * ```typescript
+ * const buckets = bucketHistories(histories, 'month', {
+ *   timeZone: 'Europe/Paris',
+ *   from: '2025-01-01',
+ *   to: '2025-12-31',
+ * });
+ * // [{ start: '2025-01-01', sum: 120, count: 4, runningTotal: 120 }, ...]
+ * ```
+ */
+export const bucketHistories = (
+  histories: History[],
+  granularity: HistoryGranularity,
+  { timeZone = deviceTimeZone(), from, to }: BucketHistoriesOptions = {}
+): HistoryBucket[] => {
+  const byBucket = new Map<number, History[]>();
+  for (const history of histories) {
+    const date = historyDate(history, timeZone);
+    if (date === null) continue;
+    const key = bucketStartMs(date, granularity);
+    const bucket = byBucket.get(key);
+    if (bucket) {
+      bucket.push(history);
+    } else {
+      byBucket.set(key, [history]);
+    }
+  }
+
+  const keys = [...byBucket.keys()];
+  if (keys.length === 0 && (from === undefined || to === undefined)) {
+    return [];
+  }
+  const first =
+    from === undefined ? Math.min(...keys) : bucketStartMs(from, granularity);
+  const last =
+    to === undefined ? Math.max(...keys) : bucketStartMs(to, granularity);
+
+  // Histories before the range still count towards the running total
+  let runningTotal = 0;
+  for (const [key, bucket] of byBucket) {
+    if (key < first) runningTotal += calculateSum(bucket);
+  }
+
+  const buckets: HistoryBucket[] = [];
+  for (let ms = first; ms <= last; ms = nextBucketStartMs(ms, granularity)) {
+    const bucket = byBucket.get(ms) ?? [];
+    const sum = calculateSum(bucket);
+    runningTotal += sum;
+    buckets.push({
+      start: toDateString(ms),
+      sum,
+      count: bucket.length,
+      runningTotal,
+    });
+  }
+  return buckets;
+};
@@ -1,15 +1,238 @@
 export { calculatePercentage, calculateSum } from './calculations';
+export {
+  calculateMean,
+  calculateMedian,
+  calculatePercentile,
+  calculateStandardDeviation,
+  describeHistories,
+  calculateStreaks,
+  calculateTrend,
+  type HistoryStatistics,
+  type HistoryStreaks,
+  type HistoryTrend,
+  type CalculateStreaksOptions,
+  type CalculateTrendOptions,
+} from './statistics';
+export {
+  calculateGoalProgress,
+  type GoalStatus,
+  type GoalProgress,
+  type CalculateGoalProgressOptions,
+} from './goals';
+export {
+  cacheFreshness,
+  DEFAULT_STALE_FRACTION,
+  type Freshness,
+  type FreshnessStatus,
+} from './freshness';
+export {
+  bucketHistories,
+  bucketStart,
+  nextBucketStart,
+  historyDate,
+  type HistoryGranularity,
+  type HistoryBucket,
+  type BucketHistoriesOptions,
+} from './historySeries';
 export {
   geocode,
+  reverseGeocode,
+  resolveEndpoint,
+  haversineDistance,
   fetchRoute,
   resolveTransitRoute,
+  fetchTransitRoute,
+  fetchDurationMatrix,
+  estimateRoute,
+  configureGeo,
+  getGeoConfig,
+  resetGeoConfig,
+  geoFetch,
+  GeoError,
+  geoFailureReason,
+  httpFailureReason,
+  isRetryableGeoFailure,
+  DEFAULT_TRANSIT_PREFERENCES,
+  DEFAULT_ESTIMATE_MODELS,
+  OSM_RATE_LIMITS,
   type Coords,
+  type BoundingBox,
+  type RouteEndpoint,
   type RouteInfo,
+  type RouteOption,
+  type TransitMode,
+  type TransitPreferences,
+  type EstimateModel,
+  type GeoConfig,
+  type GeoFailure,
+  type GeoFailureReason,
+  type GeoResult,
+  type GeocodeOptions,
+  type ReverseGeocodeOptions,
+  type FetchRouteOptions,
+  type FetchTransitRouteOptions,
+  type TravelTimeMatrix,
+  type ResolveTransitRouteOptions,
 } from './geo';
 export {
+  createNominatimProvider,
+  createPhotonProvider,
+  createGazetteerProvider,
+  normalizeGeocodeQuery,
+  type GeocodingProvider,
+  type GeocodeCandidate,
+  type GeocodeBias,
+  type GeocodeSearchOptions,
+  type GeocodeReverseOptions,
+  type NominatimProviderConfig,
+  type PhotonProviderConfig,
+  type GazetteerEntry,
+} from './geocoding';
+export {
+  createOsrmProvider,
+  createValhallaProvider,
+  createGraphHopperProvider,
+  type RoutingProvider,
+  type RoutingProfile,
+  type RouteResult,
+  type RouteStep,
+  type DurationMatrix,
+  type ManeuverType,
+  type ManeuverModifier,
+  type OsrmProviderConfig,
+  type ValhallaProviderConfig,
+  type GraphHopperProviderConfig,
+} from './routing';
+export {
+  decodePolyline,
+  encodePolyline,
+  simplifyPath,
+  distanceToPath,
+  pathBounds,
+  pathLength,
+  toGeoJsonBBox,
+  routeToGeoJson,
+  type LatLngPath,
+  type GeoJsonBBox,
+  type RouteFeature,
+  type RouteFeatureProperties,
+  type RouteToGeoJsonOptions,
+} from './geometry';
+export {
+  createOtpTransitProvider,
+  type TransitProvider,
+  type TransitRoute,
+  type TransitSegment,
+  type TransitStop,
+  type TransitLine,
+  type TransitPlanOptions,
+  type OtpTransitProviderConfig,
+} from './transit';
+export {
+  locatedStops,
+  dayLegs,
+  summarizeDayRoutes,
+  resolveDayRoutes,
+  DEFAULT_SCHEDULE_ACCESSORS,
+  DEFAULT_DAY_ROUTES_CONCURRENCY,
+  type ScheduleItem,
+  type ScheduleAccessors,
+  type ItineraryStop,
+  type DayLeg,
+  type DayRouteTotals,
+  type ResolveDayRoutesOptions,
+} from './itinerary';
+export {
+  buildItineraryMapData,
+  resolveItineraryMapDay,
+  type MapStop,
+  type MapLeg,
+  type ItineraryMapDay,
+  type ItineraryMapDayResult,
+  type StopFeature,
+  type StopFeatureProperties,
+  type LegFeature,
+  type LegFeatureProperties,
+  type ItineraryFeatureCollection,
+  type BuildItineraryMapDataOptions,
+  type ResolveItineraryMapDayOptions,
+} from './mapData';
+export {
+  computeDayTimeline,
+  DEFAULT_TIGHT_MARGIN_MINUTES,
+  type ScheduleItemStatus,
+  type ScheduleConflict,
+  type LegTiming,
+  type ScheduleItemTiming,
+  type DayTimeline,
+  type ComputeDayTimelineOptions,
+} from './timeline';
+export {
+  findItineraryCursor,
+  DEFAULT_REROUTE_THRESHOLD_METRES,
+  type LiveScheduleItem,
+  type ItineraryCursor,
+  type FindItineraryCursorOptions,
+} from './live';
+export {
+  deviceTimeZone,
+  resolveZonedTime,
+  toZonedTime,
+  formatZonedTime,
+  scheduleInstants,
+  type Disambiguation,
+  type ZonedInstant,
+  type ZonedDateTime,
+  type ScheduleInstant,
+  type ScheduleInstantsOptions,
+} from './timeZone';
+export {
+  optimizeVisitOrder,
+  type OptimizeVisitOrderOptions,
+  type VisitOrderSuggestion,
+} from './visitOrder';
+export {
+  parseTimeOfDay,
+  parseTimeRange,
+  parseScheduleTime,
+  isTimeRange,
+  toMinutes,
+  fromMinutes,
+  compareTimes,
+  addMinutes,
+  minutesBetween,
+  rangeDuration,
+  isWithinRange,
+  formatTimeOfDay,
+  type TimeOfDay,
+  type TimeRange,
+  type TimeParseFailureReason,
+  type TimeParseFailure,
+  type TimeParseResult,
+} from './timeOfDay';
+export {
+  createFormatter,
+  configureFormatting,
+  getFormattingConfig,
+  getFormatter,
+  resetFormattingConfig,
   formatDuration,
+  formatRouteSummary,
+  formatStepInstruction,
+  formatDirections,
   formatDistance,
   parseTime,
+  formatClockTime,
   formatTime12,
+  formatTimeRange,
   formatHour,
+  formatRelativeTime,
+  type FormattingConfig,
+  type Formatter,
+  type UnitSystem,
+  type ClockFormat,
 } from './formatting';
+export {
+  FORMATTING_MESSAGES,
+  type FormattingMessages,
+} from './formattingMessages';
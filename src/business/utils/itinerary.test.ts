@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { ItinDay } from '@sudobility/superguide_types';
+import { useGeoCacheStore } from '../stores/geoCacheStore';
+import type { RouteInfo } from './geo';
+import { createGazetteerProvider } from './geocoding';
+import {
+  DEFAULT_SCHEDULE_ACCESSORS,
+  dayLegs,
+  locatedStops,
+  resolveDayRoutes,
+  summarizeDayRoutes,
+} from './itinerary';
+import type { RoutingProvider } from './routing';
+
+const day: ItinDay = {
+  day: 1,
+  date: '2024-06-01',
+  schedule: [
+    { time: '09:00', place: 'Louvre' },
+    { time: '11:00', place: '' },
+    { time: '12:00', place: { lat: 48.86, lng: 2.3266 } },
+    { time: '15:00', place: 'Eiffel Tower' },
+  ],
+};
+
+describe('locatedStops', () => {
+  it('skips items without a place and keeps their schedule index', () => {
+    expect(locatedStops(day).map(stop => stop.index)).toEqual([0, 2, 3]);
+    expect(locatedStops(day)[1]).toMatchObject({
+      place: { lat: 48.86, lng: 2.3266 },
+      time: '12:00',
+    });
+  });
+
+  it('uses custom accessors', () => {
+    const stops = locatedStops(
+      { day: 1, date: '2024-06-01', schedule: [{ name: 'Louvre' }] },
+      { place: item => item.name, time: () => undefined }
+    );
+    expect(stops).toEqual([
+      { index: 0, item: { name: 'Louvre' }, place: 'Louvre' },
+    ]);
+  });
+});
+
+describe('DEFAULT_SCHEDULE_ACCESSORS', () => {
+  const { time, endTime } = DEFAULT_SCHEDULE_ACCESSORS;
+
+  it('normalises times and reads ranges', () => {
+    expect(time({ time: '9am' })).toBe('09:00');
+    expect(time({ time: '9:00–11:30' })).toBe('09:00');
+    expect(endTime?.({ time: '9:00–11:30' })).toBe('11:30');
+    expect(endTime?.({ time: '9:00–11:30', endTime: 'noon' })).toBe('12:00');
+  });
+
+  it('ignores times that do not parse', () => {
+    expect(time({ time: 'morning' })).toBeUndefined();
+    expect(endTime?.({ time: '14:00' })).toBeUndefined();
+  });
+});
+
+describe('dayLegs', () => {
+  it('pairs consecutive located stops', () => {
+    expect(dayLegs(day).map(({ from, to }) => [from.index, to.index])).toEqual([
+      [0, 2],
+      [2, 3],
+    ]);
+  });
+});
+
+describe('summarizeDayRoutes', () => {
+  const leg = (mode: RouteInfo['mode'], seconds: number): RouteInfo => ({
+    mode,
+    duration: seconds,
+    distance: seconds,
+    coords: [],
+  });
+
+  it('adds up walking distance and the time of each mode', () => {
+    const transit: RouteInfo = {
+      ...leg('transit', 1200),
+      segments: [
+        { type: 'walk', wait: 0, ...leg('walking', 150) },
+        { type: 'ride', wait: 60, ...leg('transit', 990) },
+      ],
+    };
+    expect(
+      summarizeDayRoutes([
+        leg('walking', 600),
+        null,
+        leg('driving', 900),
+        transit,
+        leg('cycling', 300),
+      ])
+    ).toEqual({
+      walkingDistance: 750,
+      drivingDuration: 900,
+      cyclingDuration: 300,
+      transitDuration: 1200,
+      totalDuration: 3000,
+    });
+  });
+
+  it('counts a bike ride on its own', () => {
+    expect(summarizeDayRoutes([leg('cycling', 900)])).toEqual({
+      walkingDistance: 0,
+      drivingDuration: 0,
+      cyclingDuration: 900,
+      transitDuration: 0,
+      totalDuration: 900,
+    });
+  });
+});
+
+describe('resolveDayRoutes', () => {
+  const geocoder = createGazetteerProvider([
+    { name: 'Louvre', coords: { lat: 48.8606, lng: 2.3376 } },
+    { name: 'Eiffel Tower', coords: { lat: 48.8584, lng: 2.2945 } },
+  ]);
+
+  afterEach(() => {
+    useGeoCacheStore.getState().clearAll();
+  });
+
+  it('resolves every leg with bounded concurrency', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const router: RoutingProvider = {
+      name: `test-${Math.random()}`,
+      route: async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+        return { duration: 600, distance: 800, coords: [] };
+      },
+    };
+    const settled: number[] = [];
+    const results = await resolveDayRoutes(day, {
+      geocoder,
+      router,
+      concurrency: 1,
+      preferences: { allowedModes: ['walking'] },
+      onLeg: index => settled.push(index),
+    });
+    expect(results).toHaveLength(2);
+    expect(results.every(result => result.ok)).toBe(true);
+    expect(settled).toEqual([0, 1]);
+    expect(maxActive).toBe(1);
+  });
+
+  it('reports failures per leg', async () => {
+    const results = await resolveDayRoutes(
+      {
+        day: 1,
+        date: '2024-06-01',
+        schedule: [{ place: 'Louvre' }, { place: 'Atlantis' }],
+      },
+      { geocoder, router: { name: 'unused', route: async () => null } }
+    );
+    expect(results).toEqual([
+      expect.objectContaining({ ok: false, reason: 'not_found' }),
+    ]);
+  });
+});
@@ -0,0 +1,259 @@
+import type { ItinDay } from '@sudobility/superguide_types';
+import {
+  type GeoResult,
+  resolveTransitRoute,
+  type ResolveTransitRouteOptions,
+  type RouteEndpoint,
+  type RouteInfo,
+} from './geo';
+import {
+  formatTimeOfDay,
+  isTimeRange,
+  parseScheduleTime,
+  parseTimeRange,
+} from './timeOfDay';
+
+/**
+ * One entry of an {@link ItinDay}'s `schedule`.
+ */
+export type ScheduleItem = ItinDay['schedule'][number];
+
+/**
+ * Reads the location and start time of schedule items, so the itinerary
+ * utilities work with any schedule item shape.
+ */
+export interface ScheduleAccessors {
+  /** Where the item takes place; `undefined` for unlocated items. */
+  place: (item: ScheduleItem) => RouteEndpoint | undefined;
+  /** Start time as `HH:mm`; `undefined` when the item is not timed. */
+  time: (item: ScheduleItem) => string | undefined;
+  /** End time as `HH:mm`; `undefined` when the item has no set end. */
+  endTime?: (item: ScheduleItem) => string | undefined;
+  /** Whether the user pinned the item to its position in the day. */
+  pinned?: (item: ScheduleItem) => boolean;
+  /** Whether the item must happen at its time (e.g. a booked table). */
+  fixedTime?: (item: ScheduleItem) => boolean;
+}
+
+const field = (item: ScheduleItem, key: string): unknown =>
+  item && typeof item === 'object'
+    ? (item as Record<string, unknown>)[key]
+    : undefined;
+
+const isCoords = (value: unknown): value is { lat: number; lng: number } =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as Record<string, unknown>).lat === 'number' &&
+  typeof (value as Record<string, unknown>).lng === 'number';
+
+/**
+ * Reads a time field as `HH:mm`: the field's time, or its range's start or
+ * end, in any form accepted by `parseScheduleTime`.
+ */
+const timeField = (
+  item: ScheduleItem,
+  key: string,
+  bound: 'start' | 'end'
+): string | undefined => {
+  const value = field(item, key);
+  if (typeof value !== 'string') return undefined;
+  const parsed = parseScheduleTime(value);
+  if (!parsed.ok) return undefined;
+  return formatTimeOfDay(
+    isTimeRange(parsed.value) ? parsed.value[bound] : parsed.value
+  );
+};
+
+/**
+ * Default accessors: an item's `place` (a place name or coordinates), its
+ * `time` and `endTime` and its `pinned` and `fixedTime` flags. Times are
+ * normalised to `HH:mm`, and a range in `time` (e.g. `9:00–11:30`)
+ * provides the end time when `endTime` is missing.
+ */
+export const DEFAULT_SCHEDULE_ACCESSORS: ScheduleAccessors = {
+  place: item => {
+    const place = field(item, 'place');
+    if (typeof place === 'string' && place.trim()) return place;
+    return isCoords(place) ? place : undefined;
+  },
+  time: item => timeField(item, 'time', 'start'),
+  endTime: item => {
+    const value = field(item, 'time');
+    const range = typeof value === 'string' ? parseTimeRange(value) : undefined;
+    return (
+      timeField(item, 'endTime', 'start') ??
+      (range?.ok ? formatTimeOfDay(range.value.end) : undefined)
+    );
+  },
+  pinned: item => field(item, 'pinned') === true,
+  fixedTime: item => field(item, 'fixedTime') === true,
+};
+
+/**
+ * A schedule item that has a location.
+ */
+export interface ItineraryStop {
+  /** Position of the item in the day's `schedule`. */
+  index: number;
+  item: ScheduleItem;
+  place: RouteEndpoint;
+  /** Start time as `HH:mm`, when the item is timed. */
+  time?: string;
+}
+
+/**
+ * Travel between two consecutive located stops of a day.
+ */
+export interface DayLeg {
+  from: ItineraryStop;
+  to: ItineraryStop;
+}
+
+/**
+ * Returns the day's schedule items that have a location, in schedule order.
+ */
+export const locatedStops = (
+  day: ItinDay,
+  accessors: ScheduleAccessors = DEFAULT_SCHEDULE_ACCESSORS
+): ItineraryStop[] => {
+  const stops: ItineraryStop[] = [];
+  (day.schedule as ScheduleItem[]).forEach((item, index) => {
+    const place = accessors.place(item);
+    if (place === undefined) return;
+    const time = accessors.time(item);
+    stops.push(
+      time === undefined ? { index, item, place } : { index, item, place, time }
+    );
+  });
+  return stops;
+};
+
+/**
+ * Returns the legs between consecutive located stops of a day. Unlocated
+ * items (e.g. free time) are skipped.
+ */
+export const dayLegs = (
+  day: ItinDay,
+  accessors: ScheduleAccessors = DEFAULT_SCHEDULE_ACCESSORS
+): DayLeg[] => {
+  const stops = locatedStops(day, accessors);
+  return stops.slice(1).map((to, i) => ({ from: stops[i], to }));
+};
+
+/**
+ * Travel totals for a day.
+ */
+export interface DayRouteTotals {
+  /** Metres walked, including the walks within transit routes. */
+  walkingDistance: number;
+  /** Seconds spent driving. */
+  drivingDuration: number;
+  /** Seconds spent cycling. */
+  cyclingDuration: number;
+  /** Seconds spent on transit legs, including their walks and waits. */
+  transitDuration: number;
+  /** Seconds spent travelling, over every resolved leg in any mode. */
+  totalDuration: number;
+}
+
+/**
+ * Adds up the travel of a day's resolved legs. Unresolved legs (`null`)
+ * are ignored.
+ */
+export const summarizeDayRoutes = (
+  routes: (RouteInfo | null)[]
+): DayRouteTotals => {
+  const totals: DayRouteTotals = {
+    walkingDistance: 0,
+    drivingDuration: 0,
+    cyclingDuration: 0,
+    transitDuration: 0,
+    totalDuration: 0,
+  };
+  for (const route of routes) {
+    if (!route) continue;
+    totals.totalDuration += route.duration;
+    switch (route.mode) {
+      case 'walking':
+        totals.walkingDistance += route.distance;
+        break;
+      case 'driving':
+        totals.drivingDuration += route.duration;
+        break;
+      case 'cycling':
+        totals.cyclingDuration += route.duration;
+        break;
+      case 'transit':
+        totals.transitDuration += route.duration;
+        totals.walkingDistance += (route.segments ?? [])
+          .filter(segment => segment.type === 'walk')
+          .reduce((sum, segment) => sum + segment.distance, 0);
+        break;
+    }
+  }
+  return totals;
+};
+
+/**
+ * Default number of legs resolved at the same time by
+ * {@link resolveDayRoutes}.
+ */
+export const DEFAULT_DAY_ROUTES_CONCURRENCY = 2;
+
+/**
+ * Options accepted by {@link resolveDayRoutes}.
+ */
+export interface ResolveDayRoutesOptions extends ResolveTransitRouteOptions {
+  /** How many legs are resolved at the same time. Defaults to 2. */
+  concurrency?: number;
+  /** Reads locations and times from schedule items. */
+  accessors?: ScheduleAccessors;
+  /** Called as soon as each leg settles, with the leg's position. */
+  onLeg?: (index: number, result: GeoResult<RouteInfo>) => void;
+}
+
+/**
+ * Resolves every leg of an itinerary day with {@link resolveTransitRoute},
+ * at most `concurrency` legs at a time, in leg order.
+ *
+ * @param day - The itinerary day
+ * @param options - Concurrency, accessors, a per-leg callback, and the
+ *   options passed to each {@link resolveTransitRoute} call
+ * @returns One result per leg of {@link dayLegs}, in the same order
+ * @throws The signal's abort reason when `options.signal` aborts
+ */
+export async function resolveDayRoutes(
+  day: ItinDay,
+  {
+    concurrency = DEFAULT_DAY_ROUTES_CONCURRENCY,
+    accessors,
+    onLeg,
+    ...routeOptions
+  }: ResolveDayRoutesOptions = {}
+): Promise<GeoResult<RouteInfo>[]> {
+  const legs = dayLegs(day, accessors);
+  const results: GeoResult<RouteInfo>[] = new Array(legs.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < legs.length) {
+      const index = next++;
+      const { from, to } = legs[index];
+      const result = await resolveTransitRoute(
+        from.place,
+        to.place,
+        routeOptions
+      );
+      results[index] = result;
+      onLeg?.(index, result);
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, legs.length)) },
+      worker
+    )
+  );
+  return results;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { ItinDay } from '@sudobility/superguide_types';
+import { findItineraryCursor } from './live';
+
+const itin: ItinDay[] = [
+  {
+    day: 1,
+    date: '2024-06-01',
+    schedule: [{ place: 'Hotel', time: '08:00' }],
+  },
+  {
+    day: 2,
+    date: '2024-06-02',
+    schedule: [
+      { place: 'Louvre', time: '09:00', endTime: '11:00' },
+      { title: 'Free time' },
+      { place: 'Orsay', time: '12:00' },
+      { title: 'Dinner', time: '19:30' },
+    ],
+  },
+];
+
+// Local times on June 2nd
+const at = (hours: number, minutes: number, seconds = 0): Date =>
+  new Date(2024, 5, 2, hours, minutes, seconds);
+
+describe('findItineraryCursor', () => {
+  it('finds the current and next items of today', () => {
+    const cursor = findItineraryCursor(itin, at(10, 15));
+    expect(cursor?.day.day).toBe(2);
+    expect(cursor?.dayIndex).toBe(1);
+    expect(cursor?.current).toMatchObject({
+      index: 0,
+      place: 'Louvre',
+      time: '09:00',
+      endTime: '11:00',
+    });
+    expect(cursor?.next).toMatchObject({ index: 2, place: 'Orsay' });
+    expect(cursor?.minutesUntilNext).toBe(105);
+  });
+
+  it('has no current item between an end and the next start', () => {
+    const cursor = findItineraryCursor(itin, at(11, 30, 30));
+    expect(cursor?.current).toBeNull();
+    expect(cursor?.minutesUntilNext).toBe(30);
+  });
+
+  it('keeps an item without an end current until the next starts', () => {
+    const cursor = findItineraryCursor(itin, at(15, 0));
+    expect(cursor?.current?.index).toBe(2);
+    expect(cursor?.next).toMatchObject({ index: 3, time: '19:30' });
+    expect(cursor?.next?.place).toBeUndefined();
+  });
+
+  it('has no next item after the last one', () => {
+    const cursor = findItineraryCursor(itin, at(21, 0));
+    expect(cursor?.current?.index).toBe(3);
+    expect(cursor?.next).toBeNull();
+    expect(cursor?.minutesUntilNext).toBeNull();
+  });
+
+  it('reads the itinerary in the destination time zone', () => {
+    // 16:00 in New York is 22:00 in Paris, after dinner has started
+    const now = new Date('2024-06-02T20:00:00Z');
+    const cursor = findItineraryCursor(itin, now, {
+      timeZone: 'Europe/Paris',
+    });
+    expect(cursor?.current?.index).toBe(3);
+    expect(cursor?.next).toBeNull();
+    const beforeDinner = findItineraryCursor(
+      itin,
+      new Date('2024-06-02T17:00:00Z'),
+      { timeZone: 'Europe/Paris' }
+    );
+    expect(beforeDinner?.minutesUntilNext).toBe(30);
+    expect(beforeDinner?.next?.startsAt.toISOString()).toBe(
+      '2024-06-02T17:30:00.000Z'
+    );
+  });
+
+  it('returns null when no day is today', () => {
+    expect(findItineraryCursor(itin, new Date(2024, 5, 3, 10))).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import type { ItinDay } from '@sudobility/superguide_types';
+import type { RouteEndpoint } from './geo';
+import {
+  DEFAULT_SCHEDULE_ACCESSORS,
+  type ScheduleAccessors,
+  type ScheduleItem,
+} from './itinerary';
+import { deviceTimeZone, scheduleInstants, toZonedTime } from './timeZone';
+
+/**
+ * A timed schedule item of the active day.
+ */
+export interface LiveScheduleItem {
+  /** Position of the item in the day's `schedule`. */
+  index: number;
+  item: ScheduleItem;
+  /** Where the item takes place, when it is located. */
+  place?: RouteEndpoint;
+  /** Start time as `HH:mm`. */
+  time: string;
+  /** End time as `HH:mm`, when the item has one. */
+  endTime?: string;
+  /** The start as an instant. */
+  startsAt: Date;
+  /** The end as an instant, when the item has one. */
+  endsAt?: Date;
+}
+
+/**
+ * Where the traveller is in the itinerary at a given moment.
+ */
+export interface ItineraryCursor {
+  /** The day whose `date` is today. */
+  day: ItinDay;
+  /** Position of {@link day} in the itinerary. */
+  dayIndex: number;
+  /** The item under way, or `null` between items. */
+  current: LiveScheduleItem | null;
+  /** The next item to start today, or `null` after the last one. */
+  next: LiveScheduleItem | null;
+  /** Whole minutes until {@link next} starts, or `null` without one. */
+  minutesUntilNext: number | null;
+}
+
+/**
+ * Options accepted by {@link findItineraryCursor}.
+ */
+export interface FindItineraryCursorOptions {
+  /** Reads locations and times from schedule items. */
+  accessors?: ScheduleAccessors;
+  /**
+   * The destination's IANA time zone, in which the itinerary's dates and
+   * times are read. Defaults to the device's.
+   */
+  timeZone?: string;
+}
+
+/**
+ * Finds today's day in an itinerary and the current and next of its
+ * timed items.
+ *
+ * An item is current from its start time until its end time, or until
+ * the next item starts when it has no end. Untimed items are skipped, as
+ * is anything on other days. Dates and times are read in the
+ * destination's time zone, so the result is right wherever the device is
+ * and across DST changes.
+ *
+ * @param itin - The itinerary days
+ * @param now - The current time
+ * @param options - Schedule accessors and the destination's time zone
+ * @returns The cursor, or `null` when no day of the itinerary is today
+ * @throws RangeError when `options.timeZone` is not a valid IANA zone
+ */
+export const findItineraryCursor = (
+  itin: ItinDay[],
+  now: Date,
+  {
+    accessors = DEFAULT_SCHEDULE_ACCESSORS,
+    timeZone = deviceTimeZone(),
+  }: FindItineraryCursorOptions = {}
+): ItineraryCursor | null => {
+  const today = toZonedTime(now, timeZone).date;
+  const dayIndex = itin.findIndex(day => day.date === today);
+  if (dayIndex === -1) return null;
+  const day = itin[dayIndex];
+  const endTime = accessors.endTime ?? DEFAULT_SCHEDULE_ACCESSORS.endTime;
+
+  const items: LiveScheduleItem[] = [];
+  for (const { index, item, start, end } of scheduleInstants(day, timeZone, {
+    accessors,
+  })) {
+    const time = accessors.time(item);
+    if (!start || time === undefined) continue;
+    const place = accessors.place(item);
+    const until = endTime?.(item);
+    items.push({
+      index,
+      item,
+      ...(place === undefined ? {} : { place }),
+      time,
+      startsAt: start.instant,
+      ...(until === undefined || !end
+        ? {}
+        : { endTime: until, endsAt: end.instant }),
+    });
+  }
+
+  const nowMs = now.getTime();
+  const started = items.filter(item => item.startsAt.getTime() <= nowMs);
+  const next = items.find(item => item.startsAt.getTime() > nowMs) ?? null;
+  const last = started[started.length - 1];
+  const current =
+    last && (last.endsAt === undefined || last.endsAt.getTime() > nowMs)
+      ? last
+      : null;
+
+  return {
+    day,
+    dayIndex,
+    current,
+    next,
+    minutesUntilNext: next
+      ? Math.ceil((next.startsAt.getTime() - nowMs) / 60000)
+      : null,
+  };
+};
+
+/**
+ * Default distance in metres the device may stray from the route to the
+ * next stop before it is re-routed.
+ */
+export const DEFAULT_REROUTE_THRESHOLD_METRES = 50;
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { ItinDay } from '@sudobility/superguide_types';
+import { useGeoCacheStore } from '../stores/geoCacheStore';
+import type { RouteInfo } from './geo';
+import { createGazetteerProvider } from './geocoding';
+import { buildItineraryMapData, resolveItineraryMapDay } from './mapData';
+import type { RoutingProvider } from './routing';
+
+const louvre = { lat: 48.8606, lng: 2.3376 };
+const orsay = { lat: 48.86, lng: 2.3266 };
+
+const walk: RouteInfo = {
+  mode: 'walking',
+  duration: 600,
+  distance: 800,
+  coords: [
+    [louvre.lat, louvre.lng],
+    [48.8615, 2.332],
+    [orsay.lat, orsay.lng],
+  ],
+};
+
+describe('buildItineraryMapData', () => {
+  it('builds stop points and leg lines tagged with day and order', () => {
+    const from = { index: 0, item: {}, place: 'Louvre', time: '09:00' };
+    const to = { index: 2, item: {}, place: orsay };
+    const data = buildItineraryMapData([
+      {
+        day: 2,
+        stops: [
+          { ...from, coords: louvre },
+          { ...to, coords: orsay },
+        ],
+        legs: [{ from, to, legIndex: 0, route: walk }],
+      },
+    ]);
+    expect(data.type).toBe('FeatureCollection');
+    expect(data.features.map(feature => feature.properties)).toEqual([
+      {
+        kind: 'leg',
+        day: 2,
+        order: 0,
+        mode: 'walking',
+        duration: 600,
+        distance: 800,
+      },
+      { kind: 'stop', day: 2, order: 0, label: 'Louvre', time: '09:00' },
+      { kind: 'stop', day: 2, order: 2 },
+    ]);
+    expect(data.features[1].geometry).toEqual({
+      type: 'Point',
+      coordinates: [louvre.lng, louvre.lat],
+    });
+    expect(data.bbox).toEqual([orsay.lng, orsay.lat, louvre.lng, 48.8615]);
+  });
+
+  it('numbers legs by their position in the day', () => {
+    const stops = [0, 1, 2].map(index => ({
+      index,
+      item: {},
+      place: orsay,
+      coords: orsay,
+    }));
+    const data = buildItineraryMapData([
+      {
+        day: 1,
+        stops,
+        legs: [{ from: stops[1], to: stops[2], legIndex: 1, route: walk }],
+      },
+    ]);
+    expect(data.features[0].properties).toMatchObject({
+      kind: 'leg',
+      order: 1,
+    });
+  });
+
+  it('has no bbox when nothing is located', () => {
+    expect(buildItineraryMapData([])).toEqual({
+      type: 'FeatureCollection',
+      features: [],
+    });
+  });
+});
+
+describe('resolveItineraryMapDay', () => {
+  const geocoder = createGazetteerProvider([
+    { name: 'Louvre', coords: louvre },
+    { name: 'Orsay', coords: orsay },
+  ]);
+  const router: RoutingProvider = {
+    name: `test-${Math.random()}`,
+    route: async () => walk,
+  };
+
+  afterEach(() => {
+    useGeoCacheStore.getState().clearAll();
+  });
+
+  it('locates the stops and routes the legs', async () => {
+    const day: ItinDay = {
+      day: 1,
+      date: '2024-06-01',
+      schedule: [{ place: 'Louvre' }, { place: 'Orsay' }],
+    };
+    const { mapDay, failures } = await resolveItineraryMapDay(day, {
+      geocoder,
+      router,
+    });
+    expect(failures).toEqual([]);
+    expect(mapDay.day).toBe(1);
+    expect(mapDay.stops.map(stop => stop.coords)).toEqual([louvre, orsay]);
+    expect(mapDay.legs).toHaveLength(1);
+    expect(mapDay.legs[0].route.mode).toBe('walking');
+  });
+
+  it('leaves out what cannot be resolved', async () => {
+    const day: ItinDay = {
+      day: 1,
+      date: '2024-06-01',
+      schedule: [{ place: 'Louvre' }, { place: 'Atlantis' }],
+    };
+    const { mapDay, failures } = await resolveItineraryMapDay(day, {
+      geocoder,
+      router,
+    });
+    expect(mapDay.stops).toHaveLength(1);
+    expect(mapDay.legs).toEqual([]);
+    expect(failures.map(failure => failure.reason)).toEqual([
+      'not_found',
+      'not_found',
+    ]);
+  });
+
+  it('keeps the day position of legs after a failed leg', async () => {
+    const day: ItinDay = {
+      day: 1,
+      date: '2024-06-01',
+      schedule: [
+        { place: 'Atlantis' },
+        { place: 'Louvre' },
+        { place: 'Orsay' },
+      ],
+    };
+    const { mapDay, failures } = await resolveItineraryMapDay(day, {
+      geocoder,
+      router,
+    });
+    expect(failures).toHaveLength(2);
+    expect(mapDay.legs.map(leg => leg.legIndex)).toEqual([1]);
+    expect(mapDay.legs[0].from.index).toBe(1);
+
+    const [legFeature] = buildItineraryMapData([mapDay]).features;
+    expect(legFeature.properties).toMatchObject({ kind: 'leg', order: 1 });
+  });
+});
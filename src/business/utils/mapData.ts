@@ -0,0 +1,235 @@
+import type { ItinDay } from '@sudobility/superguide_types';
+import {
+  type BoundingBox,
+  type Coords,
+  type GeoFailure,
+  resolveEndpoint,
+  type RouteInfo,
+} from './geo';
+import {
+  type GeoJsonBBox,
+  pathBounds,
+  type RouteFeatureProperties,
+  routeToGeoJson,
+  toGeoJsonBBox,
+} from './geometry';
+import {
+  type DayLeg,
+  dayLegs,
+  type ItineraryStop,
+  locatedStops,
+  resolveDayRoutes,
+  type ResolveDayRoutesOptions,
+} from './itinerary';
+
+/**
+ * A located schedule item with its coordinates.
+ */
+export interface MapStop extends ItineraryStop {
+  coords: Coords;
+}
+
+/**
+ * A leg with its resolved route.
+ */
+export interface MapLeg extends DayLeg {
+  /** Position of the leg among the day's legs (`dayLegs`). */
+  legIndex: number;
+  route: RouteInfo;
+}
+
+/**
+ * The resolved stops and legs of one itinerary day.
+ */
+export interface ItineraryMapDay {
+  /** The day number (`ItinDay.day`). */
+  day: number;
+  stops: MapStop[];
+  legs: MapLeg[];
+}
+
+/**
+ * Properties of a schedule item's Point feature.
+ */
+export interface StopFeatureProperties {
+  kind: 'stop';
+  day: number;
+  /** Position of the item in the day's `schedule`. */
+  order: number;
+  /** The place name, when the item was located by name. */
+  label?: string;
+  /** Start time as `HH:mm`, when the item is timed. */
+  time?: string;
+}
+
+/**
+ * Properties of a leg's LineString feature.
+ */
+export interface LegFeatureProperties extends RouteFeatureProperties {
+  kind: 'leg';
+  day: number;
+  /**
+   * Position of the leg among the day's legs, counting legs that could
+   * not be resolved.
+   */
+  order: number;
+}
+
+/**
+ * A GeoJSON Point feature for a schedule item.
+ */
+export interface StopFeature {
+  type: 'Feature';
+  geometry: { type: 'Point'; coordinates: [number, number] };
+  properties: StopFeatureProperties;
+}
+
+/**
+ * A GeoJSON LineString feature for a leg.
+ */
+export interface LegFeature {
+  type: 'Feature';
+  bbox?: GeoJsonBBox;
+  geometry: { type: 'LineString'; coordinates: [number, number][] };
+  properties: LegFeatureProperties;
+}
+
+/**
+ * A GeoJSON FeatureCollection of an itinerary, with a `bbox` covering
+ * every feature for fitting the map camera.
+ */
+export interface ItineraryFeatureCollection {
+  type: 'FeatureCollection';
+  bbox?: GeoJsonBBox;
+  features: Array<StopFeature | LegFeature>;
+}
+
+/**
+ * Options accepted by {@link buildItineraryMapData}.
+ */
+export interface BuildItineraryMapDataOptions {
+  /** Simplifies leg geometries to this tolerance in metres. */
+  simplify?: number;
+}
+
+/**
+ * Builds a map-ready GeoJSON FeatureCollection from resolved itinerary
+ * days: one Point per located schedule item and one LineString per
+ * resolved leg, tagged with the day number, order and (for legs) mode.
+ * Legs are listed before stops so map layers draw stops on top.
+ *
+ * @param days - The resolved stops and legs of each day
+ * @param options - Optional simplification tolerance for leg geometries
+ */
+export const buildItineraryMapData = (
+  days: ItineraryMapDay[],
+  { simplify }: BuildItineraryMapDataOptions = {}
+): ItineraryFeatureCollection => {
+  const legs: LegFeature[] = days.flatMap(({ day, legs }) =>
+    legs.map(({ legIndex, route }) => {
+      const feature = routeToGeoJson(route, { simplify });
+      return {
+        ...feature,
+        properties: {
+          kind: 'leg',
+          day,
+          order: legIndex,
+          ...feature.properties,
+        },
+      };
+    })
+  );
+  const stops: StopFeature[] = days.flatMap(({ day, stops }) =>
+    stops.map(({ index, place, time, coords }) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [coords.lng, coords.lat] },
+      properties: {
+        kind: 'stop',
+        day,
+        order: index,
+        ...(typeof place === 'string' ? { label: place } : {}),
+        ...(time === undefined ? {} : { time }),
+      },
+    }))
+  );
+
+  const bounds: BoundingBox | null = pathBounds([
+    ...stops.map(
+      ({ geometry }) =>
+        [geometry.coordinates[1], geometry.coordinates[0]] as [number, number]
+    ),
+    ...legs.flatMap(({ bbox }) =>
+      bbox
+        ? [
+            [bbox[1], bbox[0]] as [number, number],
+            [bbox[3], bbox[2]] as [number, number],
+          ]
+        : []
+    ),
+  ]);
+  return {
+    type: 'FeatureCollection',
+    ...(bounds ? { bbox: toGeoJsonBBox(bounds) } : {}),
+    features: [...legs, ...stops],
+  };
+};
+
+/**
+ * Options accepted by {@link resolveItineraryMapDay}.
+ */
+export type ResolveItineraryMapDayOptions = Omit<
+  ResolveDayRoutesOptions,
+  'onLeg'
+>;
+
+/**
+ * Outcome of {@link resolveItineraryMapDay}.
+ */
+export interface ItineraryMapDayResult {
+  /** The stops and legs that could be resolved. */
+  mapDay: ItineraryMapDay;
+  /** Failures of the stops and legs left out of {@link mapDay}. */
+  failures: GeoFailure[];
+}
+
+/**
+ * Geocodes a day's located stops and resolves its legs for
+ * {@link buildItineraryMapData}. Stops and legs that fail are left out
+ * and their failures reported.
+ *
+ * @param day - The itinerary day
+ * @param options - Options passed to `resolveDayRoutes`; the geocoder and
+ *   bias are also used for the stops
+ * @throws The signal's abort reason when `options.signal` aborts
+ */
+export async function resolveItineraryMapDay(
+  day: ItinDay,
+  options: ResolveItineraryMapDayOptions = {}
+): Promise<ItineraryMapDayResult> {
+  const { accessors, geocoder, bias, signal } = options;
+  const stops = locatedStops(day, accessors);
+  const [located, routes] = await Promise.all([
+    Promise.all(
+      stops.map(stop =>
+        resolveEndpoint(stop.place, { provider: geocoder, bias, signal })
+      )
+    ),
+    resolveDayRoutes(day, options),
+  ]);
+
+  const failures: GeoFailure[] = [];
+  const mapDay: ItineraryMapDay = { day: day.day, stops: [], legs: [] };
+  located.forEach((result, i) => {
+    if (result.ok) mapDay.stops.push({ ...stops[i], coords: result.value });
+    else failures.push(result);
+  });
+  dayLegs(day, accessors).forEach((leg, i) => {
+    const result = routes[i];
+    if (result.ok) {
+      mapDay.legs.push({ ...leg, legIndex: i, route: result.value });
+    } else {
+      failures.push(result);
+    }
+  });
+  return { mapDay, failures };
+}
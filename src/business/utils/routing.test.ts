@@ -0,0 +1,305 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { formatDirections } from './formatting';
+import { resetGeoConfig } from './geo';
+import {
+  createGraphHopperProvider,
+  createOsrmProvider,
+  createValhallaProvider,
+} from './routing';
+
+const from = { lat: 48.85, lng: 2.35 };
+const to = { lat: 48.86, lng: 2.36 };
+
+const mockFetchJson = (body: unknown, status = 200) =>
+  vi
+    .spyOn(globalThis, 'fetch')
+    .mockResolvedValue(new Response(JSON.stringify(body), { status }));
+
+describe('createOsrmProvider', () => {
+  afterEach(() => {
+    resetGeoConfig();
+    vi.restoreAllMocks();
+  });
+
+  it('builds the request from the configured base URL and profile map', async () => {
+    const fetchSpy = mockFetchJson({
+      code: 'Ok',
+      routes: [
+        {
+          duration: 600,
+          distance: 1200,
+          geometry: {
+            coordinates: [
+              [2.35, 48.85],
+              [2.36, 48.86],
+            ],
+          },
+        },
+      ],
+    });
+    const provider = createOsrmProvider({
+      baseUrl: 'https://osrm.example.com/',
+      profiles: { foot: 'walking' },
+    });
+    const route = await provider.route(from, to, 'foot');
+    expect(String(fetchSpy.mock.calls[0][0])).toContain(
+      'https://osrm.example.com/route/v1/walking/2.35,48.85;2.36,48.86'
+    );
+    expect(route).toEqual({
+      duration: 600,
+      distance: 1200,
+      coords: [
+        [48.85, 2.35],
+        [48.86, 2.36],
+      ],
+    });
+  });
+
+  it('maps leg steps to turn-by-turn steps', async () => {
+    mockFetchJson({
+      code: 'Ok',
+      routes: [
+        {
+          duration: 600,
+          distance: 1200,
+          geometry: { coordinates: [] },
+          legs: [
+            {
+              steps: [
+                {
+                  name: 'Rue de Rivoli',
+                  distance: 100,
+                  duration: 200,
+                  maneuver: { type: 'depart', location: [2.35, 48.85] },
+                },
+                {
+                  name: 'Rue du Louvre',
+                  distance: 900,
+                  duration: 400,
+                  maneuver: {
+                    type: 'end of road',
+                    modifier: 'left',
+                    location: [2.355, 48.855],
+                  },
+                },
+                {
+                  name: '',
+                  distance: 0,
+                  duration: 0,
+                  maneuver: { type: 'arrive', location: [2.36, 48.86] },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+    const route = await createOsrmProvider().route(from, to, 'foot');
+    expect(route?.steps).toEqual([
+      {
+        maneuver: 'depart',
+        modifier: undefined,
+        name: 'Rue de Rivoli',
+        distance: 100,
+        duration: 200,
+        location: { lat: 48.85, lng: 2.35 },
+      },
+      {
+        maneuver: 'turn',
+        modifier: 'left',
+        name: 'Rue du Louvre',
+        distance: 900,
+        duration: 400,
+        location: { lat: 48.855, lng: 2.355 },
+      },
+      {
+        maneuver: 'arrive',
+        modifier: undefined,
+        name: '',
+        distance: 0,
+        duration: 0,
+        location: { lat: 48.86, lng: 2.36 },
+      },
+    ]);
+    expect(formatDirections(route?.steps ?? [])).toEqual([
+      'Head out on Rue de Rivoli',
+      'Turn left onto Rue du Louvre in 328 ft',
+      'Arrive at your destination in 0.6 mi',
+    ]);
+  });
+
+  it('reads travel-time matrices from the table service', async () => {
+    const fetchSpy = mockFetchJson({
+      code: 'Ok',
+      durations: [
+        [0, 120],
+        [130, 0],
+      ],
+    });
+    const durations = await createOsrmProvider().table?.([from, to], 'foot');
+    expect(String(fetchSpy.mock.calls[0][0])).toBe(
+      'https://router.project-osrm.org/table/v1/foot/2.35,48.85;2.36,48.86?annotations=duration'
+    );
+    expect(durations).toEqual([
+      [0, 120],
+      [130, 0],
+    ]);
+  });
+
+  it('returns null when OSRM reports no route', async () => {
+    mockFetchJson({ code: 'NoRoute' }, 400);
+    expect(await createOsrmProvider().route(from, to, 'car')).toBeNull();
+  });
+
+  it('throws on other errors', async () => {
+    mockFetchJson({ code: 'InvalidQuery' }, 400);
+    await expect(createOsrmProvider().route(from, to, 'car')).rejects.toThrow();
+  });
+});
+
+describe('createValhallaProvider', () => {
+  afterEach(() => {
+    resetGeoConfig();
+    vi.restoreAllMocks();
+  });
+
+  it('maps profiles to costing models and decodes polyline6 shapes', async () => {
+    const fetchSpy = mockFetchJson({
+      trip: {
+        summary: { time: 900, length: 1.5 },
+        legs: [{ shape: '_dqd|A_zlnC_pR_pR' }],
+      },
+    });
+    const provider = createValhallaProvider({
+      baseUrl: 'https://valhalla.example.com',
+    });
+    const route = await provider.route(from, to, 'foot');
+    const body = JSON.parse(String(fetchSpy.mock.calls[0][1]?.body));
+    expect(body.costing).toBe('pedestrian');
+    expect(route?.duration).toBe(900);
+    expect(route?.distance).toBe(1500);
+    expect(route?.coords[0][0]).toBeCloseTo(48.85, 6);
+    expect(route?.coords[1][1]).toBeCloseTo(2.36, 6);
+  });
+
+  it('maps maneuvers to steps located on the decoded shape', async () => {
+    mockFetchJson({
+      trip: {
+        summary: { time: 900, length: 1.5 },
+        legs: [
+          {
+            shape: '_dqd|A_zlnC_pR_pR',
+            maneuvers: [
+              {
+                type: 1,
+                street_names: ['Quai du Louvre'],
+                length: 1.5,
+                time: 900,
+                begin_shape_index: 0,
+              },
+              { type: 4, length: 0, time: 0, begin_shape_index: 1 },
+            ],
+          },
+        ],
+      },
+    });
+    const provider = createValhallaProvider({ baseUrl: 'http://v' });
+    const route = await provider.route(from, to, 'foot');
+    expect(route?.steps).toMatchObject([
+      { maneuver: 'depart', name: 'Quai du Louvre', distance: 1500 },
+      { maneuver: 'arrive', name: '', distance: 0 },
+    ]);
+    expect(route?.steps?.[1].location.lat).toBeCloseTo(48.86, 6);
+  });
+
+  it('returns null for Valhalla no-route errors', async () => {
+    mockFetchJson({ error_code: 442, error: 'No path could be found' }, 400);
+    const provider = createValhallaProvider({ baseUrl: 'http://v' });
+    expect(await provider.route(from, to, 'car')).toBeNull();
+  });
+});
+
+describe('createGraphHopperProvider', () => {
+  afterEach(() => {
+    resetGeoConfig();
+    vi.restoreAllMocks();
+  });
+
+  it('converts milliseconds to seconds and passes the API key', async () => {
+    const fetchSpy = mockFetchJson({
+      paths: [
+        {
+          time: 720000,
+          distance: 3000,
+          points: {
+            coordinates: [
+              [2.35, 48.85],
+              [2.36, 48.86],
+            ],
+          },
+        },
+      ],
+    });
+    const route = await createGraphHopperProvider({ apiKey: 'k' }).route(
+      from,
+      to,
+      'car'
+    );
+    expect(String(fetchSpy.mock.calls[0][0])).toContain('&key=k');
+    expect(route?.duration).toBe(720);
+    expect(route?.coords[0]).toEqual([48.85, 2.35]);
+  });
+
+  it('maps instruction signs to steps', async () => {
+    mockFetchJson({
+      paths: [
+        {
+          time: 720000,
+          distance: 3000,
+          points: {
+            coordinates: [
+              [2.35, 48.85],
+              [2.355, 48.855],
+              [2.36, 48.86],
+            ],
+          },
+          instructions: [
+            {
+              sign: 0,
+              street_name: 'Main St',
+              distance: 2000,
+              time: 480000,
+              interval: [0, 1],
+            },
+            {
+              sign: -3,
+              street_name: 'Oak Ave',
+              distance: 1000,
+              time: 240000,
+              interval: [1, 2],
+            },
+            { sign: 4, distance: 0, time: 0, interval: [2, 2] },
+          ],
+        },
+      ],
+    });
+    const route = await createGraphHopperProvider().route(from, to, 'car');
+    expect(route?.steps).toMatchObject([
+      { maneuver: 'depart', name: 'Main St', duration: 480 },
+      {
+        maneuver: 'turn',
+        modifier: 'sharp left',
+        name: 'Oak Ave',
+        location: { lat: 48.855, lng: 2.355 },
+      },
+      { maneuver: 'arrive', name: '' },
+    ]);
+  });
+
+  it('returns null when no connection is found', async () => {
+    mockFetchJson({ message: 'Connection between locations not found' }, 400);
+    expect(
+      await createGraphHopperProvider().route(from, to, 'foot')
+    ).toBeNull();
+  });
+});
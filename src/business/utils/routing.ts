@@ -0,0 +1,457 @@
+import { type Coords, GeoError, geoFetch, httpFailureReason } from './geo';
+import { decodePolyline } from './geometry';
+
+/**
+ * Travel profile requested from a {@link RoutingProvider}.
+ */
+export type RoutingProfile = 'foot' | 'bike' | 'car';
+
+/**
+ * Kind of maneuver at the start of a {@link RouteStep}.
+ */
+export type ManeuverType =
+  | 'depart'
+  | 'turn'
+  | 'continue'
+  | 'merge'
+  | 'ramp'
+  | 'fork'
+  | 'roundabout'
+  | 'uturn'
+  | 'arrive';
+
+/**
+ * Direction of a maneuver.
+ */
+export type ManeuverModifier =
+  | 'uturn'
+  | 'sharp right'
+  | 'right'
+  | 'slight right'
+  | 'straight'
+  | 'slight left'
+  | 'left'
+  | 'sharp left';
+
+/**
+ * One turn-by-turn instruction. The step starts with its maneuver and
+ * covers `distance`/`duration` until the next maneuver.
+ */
+export interface RouteStep {
+  maneuver: ManeuverType;
+  modifier?: ManeuverModifier;
+  /** Street the step travels on; empty when unnamed. */
+  name: string;
+  /** Distance in metres until the next maneuver. */
+  distance: number;
+  /** Travel time in seconds until the next maneuver. */
+  duration: number;
+  /** Where the maneuver takes place. */
+  location: Coords;
+}
+
+/**
+ * Engine-independent route returned by every {@link RoutingProvider}.
+ */
+export interface RouteResult {
+  /** Travel time in seconds. */
+  duration: number;
+  /** Travel distance in metres. */
+  distance: number;
+  /** Route geometry as `[lat, lng]` pairs. */
+  coords: [number, number][];
+  /** Turn-by-turn steps, when the engine provides them. */
+  steps?: RouteStep[];
+}
+
+/**
+ * Per-request options passed to {@link RoutingProvider.route}.
+ */
+export interface RouteRequestOptions {
+  /** Cancels the request. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Travel times between every pair of points, in seconds:
+ * `durations[i][j]` is the time from point `i` to point `j`, or `null`
+ * when there is no route between them.
+ */
+export type DurationMatrix = (number | null)[][];
+
+/**
+ * A pluggable routing backend.
+ *
+ * Adapters resolve to `null` when the engine reports that no route exists
+ * between the points, and throw (preferably a `GeoError`) on transport or
+ * response errors. Adapters for engines with a matrix service also
+ * implement `table`.
+ */
+export interface RoutingProvider {
+  /** Stable identifier for the backend (used in cache keys and diagnostics). */
+  readonly name: string;
+  route: (
+    from: Coords,
+    to: Coords,
+    profile: RoutingProfile,
+    options?: RouteRequestOptions
+  ) => Promise<RouteResult | null>;
+  table?: (
+    points: Coords[],
+    profile: RoutingProfile,
+    options?: RouteRequestOptions
+  ) => Promise<DurationMatrix>;
+}
+
+const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
+
+/**
+ * Configuration for {@link createOsrmProvider}.
+ */
+export interface OsrmProviderConfig {
+  /** Base URL of the OSRM server. Defaults to the public demo server. */
+  baseUrl?: string;
+  /** Maps profiles to the server's profile names. Defaults to identity. */
+  profiles?: Partial<Record<RoutingProfile, string>>;
+}
+
+const OSRM_MANEUVERS: Record<string, ManeuverType> = {
+  depart: 'depart',
+  arrive: 'arrive',
+  turn: 'turn',
+  'end of road': 'turn',
+  continue: 'continue',
+  'new name': 'continue',
+  'use lane': 'continue',
+  notification: 'continue',
+  merge: 'merge',
+  'on ramp': 'ramp',
+  'off ramp': 'ramp',
+  fork: 'fork',
+  roundabout: 'roundabout',
+  rotary: 'roundabout',
+  'roundabout turn': 'roundabout',
+  'exit roundabout': 'roundabout',
+  'exit rotary': 'roundabout',
+};
+
+interface OsrmStep {
+  name?: string;
+  distance: number;
+  duration: number;
+  maneuver: {
+    type: string;
+    modifier?: ManeuverModifier;
+    location: [number, number];
+  };
+}
+
+const fromOsrmStep = ({
+  name,
+  distance,
+  duration,
+  maneuver,
+}: OsrmStep): RouteStep => ({
+  maneuver: OSRM_MANEUVERS[maneuver.type] ?? 'continue',
+  modifier: maneuver.modifier,
+  name: name ?? '',
+  distance,
+  duration,
+  location: { lat: maneuver.location[1], lng: maneuver.location[0] },
+});
+
+/**
+ * Routing adapter for an OSRM server.
+ */
+export const createOsrmProvider = ({
+  baseUrl = 'https://router.project-osrm.org',
+  profiles = {},
+}: OsrmProviderConfig = {}): RoutingProvider => {
+  const root = trimTrailingSlash(baseUrl);
+  return {
+    name: `osrm:${root}`,
+    route: async (from, to, profile, { signal } = {}) => {
+      const res = await geoFetch(
+        `${root}/route/v1/${profiles[profile] ?? profile}/${from.lng},${from.lat};${to.lng},${to.lat}?overview=full&geometries=geojson&steps=true`,
+        { signal }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (data.code === 'NoRoute') return null;
+      if (data.code !== 'Ok' || !data.routes?.[0]) {
+        throw new GeoError(
+          res.ok ? 'bad_response' : httpFailureReason(res.status),
+          `OSRM request failed (${data.code ?? res.status})`
+        );
+      }
+      const route = data.routes[0];
+      const coords = (route.geometry.coordinates as [number, number][]).map(
+        ([lng, lat]) => [lat, lng] as [number, number]
+      );
+      const steps = (route.legs as Array<{ steps?: OsrmStep[] }> | undefined)
+        ?.flatMap(leg => leg.steps ?? [])
+        .map(fromOsrmStep);
+      return {
+        duration: route.duration,
+        distance: route.distance,
+        coords,
+        ...(steps?.length ? { steps } : {}),
+      };
+    },
+    table: async (points, profile, { signal } = {}) => {
+      const coordinates = points.map(({ lat, lng }) => `${lng},${lat}`);
+      const res = await geoFetch(
+        `${root}/table/v1/${profiles[profile] ?? profile}/${coordinates.join(';')}?annotations=duration`,
+        { signal }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (data.code !== 'Ok' || !Array.isArray(data.durations)) {
+        throw new GeoError(
+          res.ok ? 'bad_response' : httpFailureReason(res.status),
+          `OSRM table request failed (${data.code ?? res.status})`
+        );
+      }
+      return data.durations as DurationMatrix;
+    },
+  };
+};
+
+/**
+ * Configuration for {@link createValhallaProvider}.
+ */
+export interface ValhallaProviderConfig {
+  /** Base URL of the Valhalla server. */
+  baseUrl: string;
+  /** Maps profiles to Valhalla costing models. */
+  costing?: Partial<Record<RoutingProfile, string>>;
+}
+
+const VALHALLA_COSTING: Record<RoutingProfile, string> = {
+  foot: 'pedestrian',
+  bike: 'bicycle',
+  car: 'auto',
+};
+
+/** Valhalla error code for "no path could be found for input". */
+const VALHALLA_NO_ROUTE = 442;
+
+/**
+ * Valhalla maneuver type codes mapped to maneuvers. Codes not listed
+ * (e.g. transit and ferry maneuvers) fall back to `continue`.
+ */
+const VALHALLA_MANEUVERS: Record<
+  number,
+  [ManeuverType, ManeuverModifier | undefined]
+> = {
+  1: ['depart', undefined],
+  2: ['depart', 'right'],
+  3: ['depart', 'left'],
+  4: ['arrive', undefined],
+  5: ['arrive', 'right'],
+  6: ['arrive', 'left'],
+  8: ['continue', 'straight'],
+  9: ['turn', 'slight right'],
+  10: ['turn', 'right'],
+  11: ['turn', 'sharp right'],
+  12: ['uturn', 'uturn'],
+  13: ['uturn', 'uturn'],
+  14: ['turn', 'sharp left'],
+  15: ['turn', 'left'],
+  16: ['turn', 'slight left'],
+  17: ['ramp', 'straight'],
+  18: ['ramp', 'right'],
+  19: ['ramp', 'left'],
+  20: ['ramp', 'right'],
+  21: ['ramp', 'left'],
+  22: ['fork', 'straight'],
+  23: ['fork', 'right'],
+  24: ['fork', 'left'],
+  25: ['merge', undefined],
+  26: ['roundabout', undefined],
+  27: ['roundabout', undefined],
+  37: ['merge', 'right'],
+  38: ['merge', 'left'],
+};
+
+interface ValhallaManeuver {
+  type: number;
+  street_names?: string[];
+  length: number;
+  time: number;
+  begin_shape_index: number;
+}
+
+/**
+ * Routing adapter for a Valhalla server.
+ */
+export const createValhallaProvider = ({
+  baseUrl,
+  costing = {},
+}: ValhallaProviderConfig): RoutingProvider => {
+  const root = trimTrailingSlash(baseUrl);
+  return {
+    name: `valhalla:${root}`,
+    route: async (from, to, profile, { signal } = {}) => {
+      const res = await geoFetch(`${root}/route`, {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          locations: [
+            { lat: from.lat, lon: from.lng },
+            { lat: to.lat, lon: to.lng },
+          ],
+          costing: costing[profile] ?? VALHALLA_COSTING[profile],
+          directions_options: { units: 'kilometers' },
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (data.error_code === VALHALLA_NO_ROUTE) return null;
+      if (!res.ok || !data.trip) {
+        throw new GeoError(
+          res.ok ? 'bad_response' : httpFailureReason(res.status),
+          `Valhalla request failed (${res.status})`
+        );
+      }
+      const { summary, legs } = data.trip as {
+        summary: { time: number; length: number };
+        legs: Array<{ shape: string; maneuvers?: ValhallaManeuver[] }>;
+      };
+      const coords: [number, number][] = [];
+      const steps: RouteStep[] = [];
+      for (const leg of legs) {
+        const shape = decodePolyline(leg.shape, 6);
+        for (const m of leg.maneuvers ?? []) {
+          const [maneuver, modifier] = VALHALLA_MANEUVERS[m.type] ?? [
+            'continue',
+            undefined,
+          ];
+          const [lat, lng] = shape[m.begin_shape_index] ?? shape[0];
+          steps.push({
+            maneuver,
+            modifier,
+            name: m.street_names?.[0] ?? '',
+            distance: m.length * 1000,
+            duration: m.time,
+            location: { lat, lng },
+          });
+        }
+        coords.push(...shape);
+      }
+      return {
+        duration: summary.time,
+        distance: summary.length * 1000,
+        coords,
+        ...(steps.length ? { steps } : {}),
+      };
+    },
+  };
+};
+
+/**
+ * Configuration for {@link createGraphHopperProvider}.
+ */
+export interface GraphHopperProviderConfig {
+  /** Base URL of the GraphHopper API. Defaults to the hosted API. */
+  baseUrl?: string;
+  /** API key, required by the hosted GraphHopper API. */
+  apiKey?: string;
+  /** Maps profiles to GraphHopper profile names. Defaults to identity. */
+  profiles?: Partial<Record<RoutingProfile, string>>;
+}
+
+/**
+ * GraphHopper instruction signs mapped to maneuvers.
+ */
+const GRAPHHOPPER_SIGNS: Record<
+  number,
+  [ManeuverType, ManeuverModifier | undefined]
+> = {
+  [-98]: ['uturn', 'uturn'],
+  [-8]: ['uturn', 'uturn'],
+  [-7]: ['fork', 'left'],
+  [-6]: ['roundabout', undefined],
+  [-3]: ['turn', 'sharp left'],
+  [-2]: ['turn', 'left'],
+  [-1]: ['turn', 'slight left'],
+  0: ['continue', 'straight'],
+  1: ['turn', 'slight right'],
+  2: ['turn', 'right'],
+  3: ['turn', 'sharp right'],
+  4: ['arrive', undefined],
+  5: ['continue', undefined],
+  6: ['roundabout', undefined],
+  7: ['fork', 'right'],
+  8: ['uturn', 'uturn'],
+};
+
+interface GraphHopperInstruction {
+  sign: number;
+  street_name?: string;
+  distance: number;
+  time: number;
+  interval: [number, number];
+}
+
+/**
+ * Routing adapter for a GraphHopper server or the hosted GraphHopper API.
+ */
+export const createGraphHopperProvider = ({
+  baseUrl = 'https://graphhopper.com/api/1',
+  apiKey,
+  profiles = {},
+}: GraphHopperProviderConfig = {}): RoutingProvider => {
+  const root = trimTrailingSlash(baseUrl);
+  return {
+    name: `graphhopper:${root}`,
+    route: async (from, to, profile, { signal } = {}) => {
+      const key = apiKey ? `&key=${encodeURIComponent(apiKey)}` : '';
+      const res = await geoFetch(
+        `${root}/route?point=${from.lat},${from.lng}&point=${to.lat},${to.lng}&profile=${profiles[profile] ?? profile}&points_encoded=false&instructions=true${key}`,
+        { signal }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.paths?.[0]) {
+        if (
+          res.status === 400 &&
+          /connection between locations not found/i.test(data.message ?? '')
+        ) {
+          return null;
+        }
+        throw new GeoError(
+          res.ok ? 'bad_response' : httpFailureReason(res.status),
+          `GraphHopper request failed (${res.status})`
+        );
+      }
+      const path = data.paths[0];
+      const coords = (path.points.coordinates as [number, number][]).map(
+        ([lng, lat]) => [lat, lng] as [number, number]
+      );
+      const steps = ((path.instructions ?? []) as GraphHopperInstruction[]).map(
+        (instruction, i): RouteStep => {
+          const [maneuver, modifier] =
+            i === 0
+              ? (['depart', undefined] as const)
+              : (GRAPHHOPPER_SIGNS[instruction.sign] ?? [
+                  'continue',
+                  undefined,
+                ]);
+          const [lat, lng] = coords[instruction.interval[0]] ?? coords[0];
+          return {
+            maneuver,
+            modifier,
+            name: instruction.street_name ?? '',
+            distance: instruction.distance,
+            duration: instruction.time / 1000,
+            location: { lat, lng },
+          };
+        }
+      );
+      return {
+        duration: path.time / 1000,
+        distance: path.distance,
+        coords,
+        ...(steps.length ? { steps } : {}),
+      };
+    },
+  };
+};
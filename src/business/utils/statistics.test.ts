@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest';
+import type { History } from '@sudobility/superguide_types';
+import {
+  calculateMean,
+  calculateMedian,
+  calculatePercentile,
+  calculateStandardDeviation,
+  calculateStreaks,
+  calculateTrend,
+  describeHistories,
+} from './statistics';
+
+const makeHistory = (overrides: Partial<History> = {}): History => ({
+  id: 'hist-1',
+  user_id: 'user-1',
+  datetime: '2024-01-01T00:00:00Z',
+  value: 100,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const withValues = (...values: number[]): History[] =>
+  values.map((value, i) => makeHistory({ id: String(i), value }));
+
+const onDays = (...dates: string[]): History[] =>
+  dates.map((date, i) =>
+    makeHistory({ id: String(i), datetime: `${date}T12:00:00Z`, value: 1 })
+  );
+
+describe('calculateMean', () => {
+  it('should return null for empty array', () => {
+    expect(calculateMean([])).toBeNull();
+  });
+
+  it('should average the values', () => {
+    expect(calculateMean(withValues(10, 20, 60))).toBe(30);
+  });
+});
+
+describe('calculateMedian', () => {
+  it('should return null for empty array', () => {
+    expect(calculateMedian([])).toBeNull();
+  });
+
+  it('should return the middle value for an odd count', () => {
+    expect(calculateMedian(withValues(9, 1, 5))).toBe(5);
+  });
+
+  it('should average the middle values for an even count', () => {
+    expect(calculateMedian(withValues(4, 1, 3, 2))).toBe(2.5);
+  });
+});
+
+describe('calculatePercentile', () => {
+  it('should interpolate between values', () => {
+    expect(calculatePercentile(withValues(10, 20, 30, 40), 90)).toBeCloseTo(37);
+    expect(calculatePercentile(withValues(10, 20, 30, 40), 25)).toBeCloseTo(
+      17.5
+    );
+  });
+
+  it('should return the min and max at the ends', () => {
+    expect(calculatePercentile(withValues(3, 1, 2), 0)).toBe(1);
+    expect(calculatePercentile(withValues(3, 1, 2), 100)).toBe(3);
+  });
+
+  it('should return null for empty array', () => {
+    expect(calculatePercentile([], 50)).toBeNull();
+  });
+
+  it('should throw for a percentile out of range', () => {
+    expect(() => calculatePercentile(withValues(1), 101)).toThrow(RangeError);
+    expect(() => calculatePercentile(withValues(1), -1)).toThrow(RangeError);
+    expect(() => calculatePercentile(withValues(1), NaN)).toThrow(RangeError);
+  });
+});
+
+describe('calculateStandardDeviation', () => {
+  it('should return null for empty array', () => {
+    expect(calculateStandardDeviation([])).toBeNull();
+  });
+
+  it('should return the population standard deviation', () => {
+    expect(calculateStandardDeviation(withValues(2, 4, 4, 4, 5, 5, 7, 9))).toBe(
+      2
+    );
+  });
+
+  it('should return 0 for a single value', () => {
+    expect(calculateStandardDeviation(withValues(42))).toBe(0);
+  });
+});
+
+describe('describeHistories', () => {
+  it('should return null for empty array', () => {
+    expect(describeHistories([])).toBeNull();
+  });
+
+  it('should summarize the values', () => {
+    expect(describeHistories(withValues(2, 4, 4, 4, 5, 5, 7, 9))).toEqual({
+      count: 8,
+      sum: 40,
+      mean: 5,
+      median: 4.5,
+      p25: 4,
+      p75: 5.5,
+      p90: 7.6,
+      min: 2,
+      max: 9,
+      standardDeviation: 2,
+    });
+  });
+});
+
+describe('calculateStreaks', () => {
+  const options = {
+    timeZone: 'UTC',
+    now: new Date('2025-01-06T12:00:00Z'),
+  };
+
+  it('should return zero streaks for empty array', () => {
+    expect(calculateStreaks([], options)).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('should find the longest run of days', () => {
+    const histories = onDays(
+      '2024-12-01',
+      '2024-12-02',
+      '2024-12-03',
+      '2024-12-05',
+      '2024-12-05'
+    );
+    expect(calculateStreaks(histories, options)).toEqual({
+      current: 0,
+      longest: 3,
+    });
+  });
+
+  it('should count the current streak through today', () => {
+    const histories = onDays('2025-01-04', '2025-01-05', '2025-01-06');
+    expect(calculateStreaks(histories, options).current).toBe(3);
+  });
+
+  it('should keep a streak that ended yesterday', () => {
+    const histories = onDays(
+      '2025-01-01',
+      '2025-01-02',
+      '2025-01-03',
+      '2025-01-05'
+    );
+    expect(calculateStreaks(histories, options)).toEqual({
+      current: 1,
+      longest: 3,
+    });
+  });
+
+  it('should assign days in the time zone', () => {
+    const histories = [
+      makeHistory({ id: '1', datetime: '2025-01-04T23:30:00Z' }),
+      makeHistory({ id: '2', datetime: '2025-01-06T10:00:00Z' }),
+    ];
+    expect(calculateStreaks(histories, options).current).toBe(1);
+    expect(
+      calculateStreaks(histories, { ...options, timeZone: 'Europe/Paris' })
+    ).toEqual({ current: 2, longest: 2 });
+  });
+});
+
+describe('calculateTrend', () => {
+  // Mondays of consecutive weeks
+  const weekly = (...sums: number[]): History[] =>
+    sums.map((value, i) =>
+      makeHistory({
+        id: String(i),
+        datetime: new Date(Date.UTC(2025, 0, 6 + i * 7, 12)).toISOString(),
+        value,
+      })
+    );
+
+  // The Monday after the third week
+  const now = new Date('2025-01-27T12:00:00Z');
+
+  it('should return null with fewer than two weeks', () => {
+    expect(calculateTrend([], { timeZone: 'UTC', now })).toBeNull();
+    expect(
+      calculateTrend(weekly(10), {
+        timeZone: 'UTC',
+        now: new Date('2025-01-13T12:00:00Z'),
+      })
+    ).toBeNull();
+  });
+
+  it('should fit the weekly sums and project the next week', () => {
+    expect(
+      calculateTrend(weekly(10, 20, 30), { timeZone: 'UTC', now })
+    ).toEqual({
+      slopePerWeek: 10,
+      projection: 40,
+      weeks: 3,
+    });
+  });
+
+  it('should project further with a horizon', () => {
+    const trend = calculateTrend(weekly(30, 20, 10), {
+      timeZone: 'UTC',
+      horizon: 2,
+      now,
+    });
+    expect(trend?.slopePerWeek).toBe(-10);
+    expect(trend?.projection).toBe(-10);
+  });
+
+  it('should leave out the week in progress', () => {
+    const histories = [
+      ...weekly(70, 70, 70),
+      makeHistory({ id: 'now', datetime: '2025-01-27T09:00:00Z', value: 10 }),
+    ];
+    const trend = calculateTrend(histories, {
+      timeZone: 'UTC',
+      now: new Date('2025-01-27T12:00:00Z'),
+    });
+    expect(trend).toEqual({ slopePerWeek: 0, projection: 70, weeks: 3 });
+  });
+
+  it('should return null with fewer than two complete weeks', () => {
+    expect(
+      calculateTrend(weekly(10, 20), {
+        timeZone: 'UTC',
+        now: new Date('2025-01-14T12:00:00Z'),
+      })
+    ).toBeNull();
+  });
+
+  it('should count the weeks since the last history as zero', () => {
+    const trend = calculateTrend(weekly(10, 20, 30), {
+      timeZone: 'UTC',
+      now: new Date('2025-03-03T12:00:00Z'),
+    });
+    expect(trend?.weeks).toBe(8);
+    expect(trend?.slopePerWeek).toBeLessThan(0);
+    expect(trend?.projection).toBeLessThan(0);
+  });
+
+  it('should count weeks without histories as zero', () => {
+    const histories = [
+      makeHistory({ id: '1', datetime: '2025-01-06T12:00:00Z', value: 20 }),
+      makeHistory({ id: '2', datetime: '2025-01-20T12:00:00Z', value: 20 }),
+    ];
+    const trend = calculateTrend(histories, { timeZone: 'UTC', now });
+    expect(trend?.weeks).toBe(3);
+    expect(trend?.slopePerWeek).toBeCloseTo(0);
+  });
+});
@@ -0,0 +1,326 @@
+import type { History } from '@sudobility/superguide_types';
+import { calculateSum } from './calculations';
+import { bucketHistories, bucketStart, historyDate } from './historySeries';
+import { deviceTimeZone, toZonedTime } from './timeZone';
+
+/**
+ * Descriptive statistics of the `value` fields of a list of histories.
+ */
+export interface HistoryStatistics {
+  /** Number of histories. */
+  count: number;
+  /** Sum of the values, as {@link calculateSum}. */
+  sum: number;
+  mean: number;
+  median: number;
+  /** 25th percentile (first quartile), as {@link calculatePercentile}. */
+  p25: number;
+  /** 75th percentile (third quartile). */
+  p75: number;
+  /** 90th percentile. */
+  p90: number;
+  min: number;
+  max: number;
+  /** Population standard deviation. */
+  standardDeviation: number;
+}
+
+/**
+ * Runs of consecutive active days, i.e. days with at least one history.
+ */
+export interface HistoryStreaks {
+  /**
+   * Active days in a row up to today. Today does not break the streak
+   * until it is over, so a streak that ended yesterday still counts.
+   */
+  current: number;
+  /** The longest run of active days ever. */
+  longest: number;
+}
+
+/**
+ * A linear trend fitted to weekly sums.
+ */
+export interface HistoryTrend {
+  /** Change of the weekly sum per week; negative when declining. */
+  slopePerWeek: number;
+  /**
+   * Fitted weekly sum `horizon` weeks after the last complete week, so
+   * with a `horizon` of 1 the current week.
+   */
+  projection: number;
+  /** Number of weeks the trend was fitted to. */
+  weeks: number;
+}
+
+/**
+ * Options accepted by {@link calculateStreaks}.
+ */
+export interface CalculateStreaksOptions {
+  /**
+   * IANA time zone in which `datetime`s are assigned to days. Defaults to
+   * the device's.
+   */
+  timeZone?: string;
+  /** The current time, which decides what "today" is. Defaults to now. */
+  now?: Date;
+}
+
+/**
+ * Options accepted by {@link calculateTrend}.
+ */
+export interface CalculateTrendOptions {
+  /**
+   * IANA time zone in which `datetime`s are assigned to weeks. Defaults to
+   * the device's.
+   */
+  timeZone?: string;
+  /**
+   * Weeks after the last complete week to project to. Defaults to 1, the
+   * current week.
+   */
+  horizon?: number;
+  /**
+   * The current time. Its week is still in progress, so it is left out of
+   * the fit. Defaults to now.
+   */
+  now?: Date;
+}
+
+const MS_PER_DAY = 86400000;
+
+const sortedValues = (histories: History[]): number[] =>
+  histories.map(h => h.value).sort((a, b) => a - b);
+
+/** Linear interpolation between the closest ranks of sorted values. */
+const percentileOf = (sorted: number[], percentile: number): number => {
+  const rank = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+/**
+ * Calculates the arithmetic mean of the `value` fields.
+ *
+ * @param histories - An array of {@link History} objects
+ * @returns The mean, or `null` if the array is empty
+ *
+ * @example
+ * ```typescript
+ * const mean = calculateMean([{ ..., value: 10 }, { ..., value: 30 }]); // 20
+ * ```
+ */
+export const calculateMean = (histories: History[]): number | null => {
+  if (histories.length === 0) return null;
+  return calculateSum(histories) / histories.length;
+};
+
+/**
+ * Calculates a percentile of the `value` fields, interpolating linearly
+ * between the two closest values (as spreadsheets' `PERCENTILE` does).
+ *
+ * @param histories - An array of {@link History} objects
+ * @param percentile - The percentile, from `0` (the minimum) to `100`
+ *   (the maximum)
+ * @returns The percentile, or `null` if the array is empty
+ * @throws RangeError if `percentile` is outside `0`–`100`
+ *
+ * @example
+ * ```typescript
+ * const values = [10, 20, 30, 40].map(value => ({ ..., value }));
+ * const p90 = calculatePercentile(values, 90); // 37
+ * ```
+ */
+export const calculatePercentile = (
+  histories: History[],
+  percentile: number
+): number | null => {
+  if (!(percentile >= 0 && percentile <= 100)) {
+    throw new RangeError(`Percentile out of range: ${percentile}`);
+  }
+  if (histories.length === 0) return null;
+  return percentileOf(sortedValues(histories), percentile);
+};
+
+/**
+ * Calculates the median of the `value` fields: the middle value, or the
+ * mean of the two middle values for an even count.
+ *
+ * @param histories - An array of {@link History} objects
+ * @returns The median, or `null` if the array is empty
+ *
+ * @example
+ * ```typescript
+ * const median = calculateMedian([{ ..., value: 1 }, { ..., value: 5 }, { ..., value: 9 }]); // 5
+ * ```
+ */
+export const calculateMedian = (histories: History[]): number | null =>
+  calculatePercentile(histories, 50);
+
+/**
+ * Calculates the population standard deviation of the `value` fields.
+ *
+ * @param histories - An array of {@link History} objects
+ * @returns The standard deviation, or `null` if the array is empty
+ *
+ * @example
+ * ```typescript
+ * const values = [2, 4, 4, 4, 5, 5, 7, 9].map(value => ({ ..., value }));
+ * const sd = calculateStandardDeviation(values); // 2
+ * ```
+ */
+export const calculateStandardDeviation = (
+  histories: History[]
+): number | null => {
+  const mean = calculateMean(histories);
+  if (mean === null) return null;
+  const variance =
+    histories.reduce((sum, h) => sum + (h.value - mean) ** 2, 0) /
+    histories.length;
+  return Math.sqrt(variance);
+};
+
+/**
+ * Summarizes the `value` fields of a list of histories, sorting them
+ * once for the median, percentiles, min and max.
+ *
+ * @param histories - An array of {@link History} objects
+ * @returns The statistics, or `null` if the array is empty
+ *
+ * @example
+ * ```typescript
+ * const stats = describeHistories(histories);
+ * if (stats) {
+ *   console.log(`${stats.count} entries, ${stats.mean.toFixed(1)} on average`);
+ * }
+ * ```
+ */
+export const describeHistories = (
+  histories: History[]
+): HistoryStatistics | null => {
+  if (histories.length === 0) return null;
+  const sorted = sortedValues(histories);
+  return {
+    count: histories.length,
+    sum: calculateSum(histories),
+    mean: calculateMean(histories) as number,
+    median: percentileOf(sorted, 50),
+    p25: percentileOf(sorted, 25),
+    p75: percentileOf(sorted, 75),
+    p90: percentileOf(sorted, 90),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    standardDeviation: calculateStandardDeviation(histories) as number,
+  };
+};
+
+/**
+ * Calculates the current and longest streaks of consecutive days with at
+ * least one history, in a time zone.
+ *
+ * @param histories - An array of {@link History} objects, in any order
+ * @param options - Time zone and current time
+ * @returns The streaks in days; both `0` if the array is empty
+ * @throws RangeError when `timeZone` is not a valid IANA zone
+ *
+ * @example
+ * ```typescript
+ * // Entries on Jan 1, 2, 3 and 5; today is Jan 6
+ * const { current, longest } = calculateStreaks(histories, {
+ *   now: new Date('2025-01-06T12:00:00Z'),
+ * });
+ * // current: 1 (Jan 5), longest: 3
+ * ```
+ */
+export const calculateStreaks = (
+  histories: History[],
+  {
+    timeZone = deviceTimeZone(),
+    now = new Date(),
+  }: CalculateStreaksOptions = {}
+): HistoryStreaks => {
+  const days = new Set<number>();
+  for (const history of histories) {
+    const date = historyDate(history, timeZone);
+    if (date !== null) days.add(Date.parse(`${date}T00:00Z`));
+  }
+
+  let longest = 0;
+  for (const day of days) {
+    // Only count from the first day of each run
+    if (days.has(day - MS_PER_DAY)) continue;
+    let length = 1;
+    while (days.has(day + length * MS_PER_DAY)) length++;
+    longest = Math.max(longest, length);
+  }
+
+  const today = Date.parse(`${toZonedTime(now, timeZone).date}T00:00Z`);
+  let current = 0;
+  let day = days.has(today) ? today : today - MS_PER_DAY;
+  while (days.has(day)) {
+    current++;
+    day -= MS_PER_DAY;
+  }
+
+  return { current, longest };
+};
+
+/**
+ * Fits a least-squares line to the weekly sums of a list of histories,
+ * from the first week with a history to the last complete week (weeks
+ * without one count as `0`, so a user who stopped logging trends down),
+ * and projects it forward. The current week is left out, as its sum is
+ * not final yet.
+ *
+ * @param histories - An array of {@link History} objects, in any order
+ * @param options - Time zone and projection horizon
+ * @returns The trend, or `null` with fewer than two complete weeks of
+ *   data
+ * @throws RangeError when `timeZone` is not a valid IANA zone
+ *
+ * @example
+ * ```typescript
+ * // Weekly sums of 10, 20 and 30 over the last three weeks
+ * const trend = calculateTrend(histories);
+ * // { slopePerWeek: 10, projection: 40, weeks: 3 }
+ * ```
+ */
+export const calculateTrend = (
+  histories: History[],
+  {
+    timeZone = deviceTimeZone(),
+    horizon = 1,
+    now = new Date(),
+  }: CalculateTrendOptions = {}
+): HistoryTrend | null => {
+  const currentWeek = bucketStart(toZonedTime(now, timeZone).date, 'week');
+  const lastCompleteDay = new Date(
+    Date.parse(`${currentWeek}T00:00Z`) - MS_PER_DAY
+  )
+    .toISOString()
+    .slice(0, 10);
+  const buckets = bucketHistories(histories, 'week', {
+    timeZone,
+    to: lastCompleteDay,
+  });
+  // The buckets run up to the current week, which has index `weeks`
+  const weeks = buckets.length;
+  if (weeks < 2) return null;
+
+  const meanX = (weeks - 1) / 2;
+  const meanY = buckets.reduce((sum, b) => sum + b.sum, 0) / weeks;
+  let covariance = 0;
+  let variance = 0;
+  buckets.forEach((bucket, x) => {
+    covariance += (x - meanX) * (bucket.sum - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  const slopePerWeek = covariance / variance;
+
+  return {
+    slopePerWeek,
+    projection: meanY + slopePerWeek * (weeks + horizon - 1 - meanX),
+    weeks,
+  };
+};
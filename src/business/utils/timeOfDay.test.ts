@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addMinutes,
+  compareTimes,
+  formatTimeOfDay,
+  fromMinutes,
+  isWithinRange,
+  minutesBetween,
+  parseScheduleTime,
+  parseTimeOfDay,
+  parseTimeRange,
+  rangeDuration,
+} from './timeOfDay';
+
+const t = (hour: number, minute = 0) => ({ hour, minute });
+
+describe('parseTimeOfDay', () => {
+  it.each([
+    ['14:30', t(14, 30)],
+    ['09:05', t(9, 5)],
+    ['9:00 AM', t(9, 0)],
+    ['9am', t(9, 0)],
+    ['9 a.m.', t(9, 0)],
+    ['12am', t(0, 0)],
+    ['12:15 PM', t(12, 15)],
+    ['14h30', t(14, 30)],
+    ['14h', t(14, 0)],
+    ['9.30', t(9, 30)],
+    ['noon', t(12, 0)],
+    [' Midnight ', t(0, 0)],
+  ])('parses %s', (input, expected) => {
+    expect(parseTimeOfDay(input)).toEqual({ ok: true, value: expected });
+  });
+
+  it.each([
+    ['', 'empty'],
+    ['25:00', 'out_of_range'],
+    ['10:75', 'out_of_range'],
+    ['13pm', 'out_of_range'],
+    ['0am', 'out_of_range'],
+    ['9:', 'invalid_format'],
+    ['soon', 'invalid_format'],
+  ])('rejects %j as %s', (input, reason) => {
+    expect(parseTimeOfDay(input)).toMatchObject({ ok: false, reason });
+  });
+});
+
+describe('parseTimeRange', () => {
+  it.each([
+    ['9:00–11:30', t(9), t(11, 30)],
+    ['9:00 - 11:30', t(9), t(11, 30)],
+    ['9-11am', t(9), t(11)],
+    ['11–1pm', t(11), t(13)],
+    ['11am-1', t(11), t(13)],
+    ['9am–11', t(9), t(11)],
+    ['10pm–1', t(22), t(1)],
+    ['2pm to 4pm', t(14), t(16)],
+    ['22h—1h', t(22), t(1)],
+    ['noon until 2pm', t(12), t(14)],
+  ])('parses %s', (input, start, end) => {
+    expect(parseTimeRange(input)).toEqual({ ok: true, value: { start, end } });
+  });
+
+  it('reports the failing bound', () => {
+    expect(parseTimeRange('9:00–25:00')).toMatchObject({
+      ok: false,
+      reason: 'out_of_range',
+    });
+    expect(parseTimeRange('14:30')).toMatchObject({
+      ok: false,
+      reason: 'invalid_format',
+    });
+  });
+});
+
+describe('parseScheduleTime', () => {
+  it('returns a time or a range', () => {
+    expect(parseScheduleTime('9am')).toEqual({ ok: true, value: t(9) });
+    expect(parseScheduleTime('9–11am')).toEqual({
+      ok: true,
+      value: { start: t(9), end: t(11) },
+    });
+    expect(parseScheduleTime('lunch')).toMatchObject({
+      ok: false,
+      reason: 'invalid_format',
+    });
+  });
+});
+
+describe('time arithmetic', () => {
+  it('compares, adds and measures across midnight', () => {
+    expect([t(14), t(9, 30), t(9)].sort(compareTimes)).toEqual([
+      t(9),
+      t(9, 30),
+      t(14),
+    ]);
+    expect(addMinutes(t(23, 30), 45)).toEqual(t(0, 15));
+    expect(addMinutes(t(0, 15), -30)).toEqual(t(23, 45));
+    expect(fromMinutes(605.4)).toEqual(t(10, 5));
+    expect(minutesBetween(t(22), t(1))).toBe(180);
+    expect(rangeDuration({ start: t(9), end: t(11, 30) })).toBe(150);
+  });
+
+  it('checks whether a time falls within a range', () => {
+    const night = { start: t(22), end: t(1) };
+    expect(isWithinRange(t(23, 59), night)).toBe(true);
+    expect(isWithinRange(t(0, 30), night)).toBe(true);
+    expect(isWithinRange(t(1), night)).toBe(false);
+    expect(isWithinRange(t(21, 59), night)).toBe(false);
+  });
+
+  it('formats as HH:mm', () => {
+    expect(formatTimeOfDay(t(9, 5))).toBe('09:05');
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * A wall-clock time of day.
+ */
+export interface TimeOfDay {
+  /** 0–23. */
+  hour: number;
+  /** 0–59. */
+  minute: number;
+}
+
+/**
+ * A span between two times of day. An `end` before `start` crosses
+ * midnight (e.g. 22:00–01:00).
+ */
+export interface TimeRange {
+  start: TimeOfDay;
+  end: TimeOfDay;
+}
+
+/**
+ * Why a time could not be parsed.
+ *
+ * - `empty`: the input is blank
+ * - `invalid_format`: the input is not a recognised time or range
+ * - `out_of_range`: the hour or minute does not exist (e.g. `25:00`)
+ */
+export type TimeParseFailureReason =
+  'empty' | 'invalid_format' | 'out_of_range';
+
+/**
+ * A failed parse, with a message for logs.
+ */
+export interface TimeParseFailure {
+  ok: false;
+  reason: TimeParseFailureReason;
+  message: string;
+}
+
+/**
+ * Outcome of a parse: either the value or a {@link TimeParseFailure}.
+ */
+export type TimeParseResult<T> = { ok: true; value: T } | TimeParseFailure;
+
+const MINUTES_PER_DAY = 1440;
+
+const failure = (
+  reason: TimeParseFailureReason,
+  input: string
+): TimeParseFailure => ({
+  ok: false,
+  reason,
+  message:
+    reason === 'empty'
+      ? 'Empty time'
+      : reason === 'out_of_range'
+        ? `Time out of range: "${input}"`
+        : `Unrecognised time: "${input}"`,
+});
+
+type Meridiem = 'am' | 'pm';
+
+/** A time as written, before a meridiem is applied. */
+interface RawTime {
+  hour: number;
+  minute: number;
+  meridiem?: Meridiem;
+}
+
+const NAMED_TIMES: Record<string, RawTime> = {
+  noon: { hour: 12, minute: 0 },
+  midday: { hour: 12, minute: 0 },
+  midnight: { hour: 0, minute: 0 },
+};
+
+/** `9`, `9:00`, `09.00`, `14h30`, `14h`, each optionally with am/pm. */
+const TIME_PATTERN = /^(\d{1,2})(?:[:.](\d{2})|h(\d{2})?)?\s*(am|pm)?$/;
+
+/** Splits a range on a dash, `to` or `until`. */
+const RANGE_PATTERN = /^(.+?)\s*(?:-|–|—|\bto\b|\buntil\b)\s*(.+)$/;
+
+/** Lowercases, drops the dots of `a.m.` and collapses whitespace. */
+const normalize = (input: string): string =>
+  input
+    .trim()
+    .toLowerCase()
+    .replace(/\b([ap])\.m\.?/g, '$1m')
+    .replace(/\s+/g, ' ');
+
+const parseRaw = (text: string, input: string): TimeParseResult<RawTime> => {
+  const named = NAMED_TIMES[text];
+  if (named) return { ok: true, value: named };
+  const match = TIME_PATTERN.exec(text);
+  if (!match) return failure('invalid_format', input);
+  const [, hour, colonMinute, hMinute, meridiem] = match;
+  const minute = colonMinute ?? hMinute;
+  return {
+    ok: true,
+    value: {
+      hour: Number(hour),
+      minute: minute === undefined ? 0 : Number(minute),
+      ...(meridiem ? { meridiem: meridiem as Meridiem } : {}),
+    },
+  };
+};
+
+const resolveRaw = (
+  { hour, minute, meridiem }: RawTime,
+  input: string
+): TimeParseResult<TimeOfDay> => {
+  if (minute > 59) return failure('out_of_range', input);
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return failure('out_of_range', input);
+    return {
+      ok: true,
+      value: { hour: (hour % 12) + (meridiem === 'pm' ? 12 : 0), minute },
+    };
+  }
+  if (hour > 23) return failure('out_of_range', input);
+  return { ok: true, value: { hour, minute } };
+};
+
+/**
+ * Parses a time of day written as `14:30`, `9:00 AM`, `9am`, `9 a.m.`,
+ * `14h30`, `14h`, `noon` or `midnight`.
+ *
+ * @example parseTimeOfDay("9:00 AM") => { ok: true, value: { hour: 9, minute: 0 } }
+ * @example parseTimeOfDay("25:00") => { ok: false, reason: 'out_of_range', ... }
+ */
+export const parseTimeOfDay = (input: string): TimeParseResult<TimeOfDay> => {
+  const text = normalize(input);
+  if (!text) return failure('empty', input);
+  const raw = parseRaw(text, input);
+  return raw.ok ? resolveRaw(raw.value, input) : raw;
+};
+
+/**
+ * Resolves a bound of a range that has no am/pm with the other bound's,
+ * or with the opposite one when that is the only way for `inOrder` to
+ * hold.
+ */
+const resolveWithMeridiem = (
+  raw: RawTime,
+  meridiem: Meridiem,
+  inOrder: (time: TimeOfDay) => boolean,
+  input: string
+): TimeParseResult<TimeOfDay> => {
+  const time = resolveRaw({ ...raw, meridiem }, input);
+  if (!time.ok || inOrder(time.value)) return time;
+  const other: Meridiem = meridiem === 'am' ? 'pm' : 'am';
+  return resolveRaw({ ...raw, meridiem: other }, input);
+};
+
+/**
+ * Parses a range of times, e.g. `9:00–11:30`, `9-11am`, `2pm to 4pm` or
+ * `22h–1h`. When only one bound has am/pm, the other takes the same one,
+ * unless that would put the start after the end (`11–1pm` is 11 AM to
+ * 1 PM, and so is `11am–1`).
+ *
+ * @example parseTimeRange("9:00–11:30") => { ok: true, value: { start: { hour: 9, ... }, end: { hour: 11, minute: 30 } } }
+ */
+export const parseTimeRange = (input: string): TimeParseResult<TimeRange> => {
+  const text = normalize(input);
+  if (!text) return failure('empty', input);
+  const parts = RANGE_PATTERN.exec(text);
+  if (!parts) return failure('invalid_format', input);
+  const rawStart = parseRaw(parts[1], input);
+  if (!rawStart.ok) return rawStart;
+  const rawEnd = parseRaw(parts[2], input);
+  if (!rawEnd.ok) return rawEnd;
+
+  const startMeridiem = rawStart.value.meridiem;
+  const endMeridiem = rawEnd.value.meridiem;
+  if (!startMeridiem && endMeridiem && rawStart.value.hour <= 12) {
+    const end = resolveRaw(rawEnd.value, input);
+    if (!end.ok) return end;
+    const start = resolveWithMeridiem(
+      rawStart.value,
+      endMeridiem,
+      time => toMinutes(time) <= toMinutes(end.value),
+      input
+    );
+    if (!start.ok) return start;
+    return { ok: true, value: { start: start.value, end: end.value } };
+  }
+
+  const start = resolveRaw(rawStart.value, input);
+  if (!start.ok) return start;
+  const end =
+    startMeridiem && !endMeridiem && rawEnd.value.hour <= 12
+      ? resolveWithMeridiem(
+          rawEnd.value,
+          startMeridiem,
+          time => toMinutes(time) >= toMinutes(start.value),
+          input
+        )
+      : resolveRaw(rawEnd.value, input);
+  if (!end.ok) return end;
+  return { ok: true, value: { start: start.value, end: end.value } };
+};
+
+/**
+ * Parses a schedule time that is either a single time or a range, in any
+ * form accepted by {@link parseTimeOfDay} and {@link parseTimeRange}.
+ */
+export const parseScheduleTime = (
+  input: string
+): TimeParseResult<TimeOfDay | TimeRange> => {
+  const time = parseTimeOfDay(input);
+  if (time.ok || time.reason !== 'invalid_format') return time;
+  const range = parseTimeRange(input);
+  // A single time that failed is the more useful error for non-ranges
+  return range.ok || RANGE_PATTERN.test(normalize(input)) ? range : time;
+};
+
+/**
+ * Whether a parsed schedule time is a range.
+ */
+export const isTimeRange = (value: TimeOfDay | TimeRange): value is TimeRange =>
+  'start' in value;
+
+/**
+ * Minutes after midnight.
+ */
+export const toMinutes = ({ hour, minute }: TimeOfDay): number =>
+  hour * 60 + minute;
+
+/**
+ * The time of day a number of minutes after midnight, wrapped to one day
+ * and rounded to the minute.
+ */
+export const fromMinutes = (minutes: number): TimeOfDay => {
+  const total =
+    ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) %
+    MINUTES_PER_DAY;
+  return { hour: Math.floor(total / 60), minute: total % 60 };
+};
+
+/**
+ * Orders two times of day: negative when `a` is earlier, positive when
+ * later, 0 when equal. Usable with `Array.prototype.sort`.
+ */
+export const compareTimes = (a: TimeOfDay, b: TimeOfDay): number =>
+  toMinutes(a) - toMinutes(b);
+
+/**
+ * Adds (or with a negative value, subtracts) minutes, wrapping around
+ * midnight.
+ *
+ * @example addMinutes({ hour: 23, minute: 30 }, 45) => { hour: 0, minute: 15 }
+ */
+export const addMinutes = (time: TimeOfDay, minutes: number): TimeOfDay =>
+  fromMinutes(toMinutes(time) + minutes);
+
+/**
+ * Minutes from `from` forward to `to`, wrapping past midnight when `to`
+ * is earlier.
+ *
+ * @example minutesBetween({ hour: 22, minute: 0 }, { hour: 1, minute: 0 }) => 180
+ */
+export const minutesBetween = (from: TimeOfDay, to: TimeOfDay): number =>
+  (toMinutes(to) - toMinutes(from) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+/**
+ * Length of a range in minutes, crossing midnight when `end` is before
+ * `start`.
+ */
+export const rangeDuration = ({ start, end }: TimeRange): number =>
+  minutesBetween(start, end);
+
+/**
+ * Whether a time falls within a range, start included and end excluded.
+ */
+export const isWithinRange = (time: TimeOfDay, range: TimeRange): boolean =>
+  minutesBetween(range.start, time) < rangeDuration(range);
+
+/**
+ * Formats a time of day as `HH:mm`.
+ */
+export const formatTimeOfDay = ({ hour, minute }: TimeOfDay): string =>
+  `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { ItinDay } from '@sudobility/superguide_types';
+import { configureFormatting, resetFormattingConfig } from './formatting';
+import {
+  formatZonedTime,
+  resolveZonedTime,
+  scheduleInstants,
+  toZonedTime,
+} from './timeZone';
+
+const iso = (result: ReturnType<typeof resolveZonedTime>) =>
+  result && { instant: result.instant.toISOString(), kind: result.kind };
+
+describe('resolveZonedTime', () => {
+  it('reads the time in the given zone', () => {
+    expect(
+      iso(resolveZonedTime('2024-07-01', '14:30', 'Europe/Paris'))
+    ).toEqual({ instant: '2024-07-01T12:30:00.000Z', kind: 'unique' });
+    expect(iso(resolveZonedTime('2024-01-15', '09:00', 'Asia/Tokyo'))).toEqual({
+      instant: '2024-01-15T00:00:00.000Z',
+      kind: 'unique',
+    });
+  });
+
+  it('moves times skipped by a DST change forward', () => {
+    // Paris skips 02:00-03:00 on 31 March 2024
+    expect(
+      iso(resolveZonedTime('2024-03-31', '02:30', 'Europe/Paris'))
+    ).toEqual({ instant: '2024-03-31T01:30:00.000Z', kind: 'gap' });
+    expect(
+      iso(resolveZonedTime('2024-03-31', '02:30', 'Europe/Paris', 'earlier'))
+    ).toEqual({ instant: '2024-03-31T00:30:00.000Z', kind: 'gap' });
+  });
+
+  it('picks between the instants of a repeated time', () => {
+    // Paris repeats 02:00-03:00 on 27 October 2024
+    expect(
+      iso(resolveZonedTime('2024-10-27', '02:30', 'Europe/Paris'))
+    ).toEqual({ instant: '2024-10-27T00:30:00.000Z', kind: 'overlap' });
+    expect(
+      iso(resolveZonedTime('2024-10-27', '02:30', 'Europe/Paris', 'later'))
+    ).toEqual({ instant: '2024-10-27T01:30:00.000Z', kind: 'overlap' });
+  });
+
+  it('rejects malformed dates and times', () => {
+    expect(resolveZonedTime('2024-07-01', '25:00', 'UTC')).toBeNull();
+    expect(resolveZonedTime('July 1st', '10:00', 'UTC')).toBeNull();
+  });
+});
+
+describe('toZonedTime and formatZonedTime', () => {
+  afterEach(() => {
+    resetFormattingConfig();
+  });
+
+  it('shows an instant in destination or another zone', () => {
+    const instant = new Date('2024-07-01T22:30:00Z');
+    expect(toZonedTime(instant, 'Europe/Paris')).toEqual({
+      date: '2024-07-02',
+      time: '00:30',
+      offset: 120,
+    });
+    expect(toZonedTime(instant, 'America/New_York')).toEqual({
+      date: '2024-07-01',
+      time: '18:30',
+      offset: -240,
+    });
+    configureFormatting({ locale: 'en-US' });
+    expect(
+      formatZonedTime(instant, 'America/New_York').replace(/\s/g, ' ')
+    ).toBe('6:30 PM');
+  });
+});
+
+describe('scheduleInstants', () => {
+  it('resolves starts and ends, rolling late ends over to the next day', () => {
+    const day: ItinDay = {
+      day: 1,
+      date: '2024-07-01',
+      schedule: [
+        { place: 'Louvre', time: '09:00', endTime: '11:00' },
+        { title: 'Free time' },
+        { place: 'Moulin Rouge', time: '23:00', endTime: '01:00' },
+      ],
+    };
+    const instants = scheduleInstants(day, 'Europe/Paris');
+    expect(
+      instants.map(({ index, start, end }) => [
+        index,
+        start?.instant.toISOString() ?? null,
+        end?.instant.toISOString() ?? null,
+      ])
+    ).toEqual([
+      [0, '2024-07-01T07:00:00.000Z', '2024-07-01T09:00:00.000Z'],
+      [1, null, null],
+      [2, '2024-07-01T21:00:00.000Z', '2024-07-01T23:00:00.000Z'],
+    ]);
+  });
+});
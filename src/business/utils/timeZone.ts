@@ -0,0 +1,232 @@
+import type { ItinDay } from '@sudobility/superguide_types';
+import { formatTime12 } from './formatting';
+import {
+  DEFAULT_SCHEDULE_ACCESSORS,
+  type ScheduleAccessors,
+  type ScheduleItem,
+} from './itinerary';
+import { parseTimeOfDay, type TimeOfDay } from './timeOfDay';
+
+/**
+ * How a wall-clock time that a DST change skips or repeats is resolved.
+ *
+ * - `compatible`: times in a gap move forward by the gap's length, and
+ *   repeated times take the earlier instant (as `Temporal` does)
+ * - `earlier`: the earlier of the candidate instants
+ * - `later`: the later of the candidate instants
+ */
+export type Disambiguation = 'compatible' | 'earlier' | 'later';
+
+/**
+ * An absolute instant for a wall-clock time in a time zone.
+ */
+export interface ZonedInstant {
+  instant: Date;
+  /**
+   * `unique` for ordinary times, `gap` when a DST change skips the time
+   * and `overlap` when it repeats it.
+   */
+  kind: 'unique' | 'gap' | 'overlap';
+}
+
+/**
+ * A wall-clock date and time in a time zone.
+ */
+export interface ZonedDateTime {
+  /** The date as `YYYY-MM-DD`. */
+  date: string;
+  /** The time as `HH:mm`. */
+  time: string;
+  /** Offset from UTC in minutes, e.g. 120 for CEST. */
+  offset: number;
+}
+
+const MS_PER_MINUTE = 60000;
+const MS_PER_DAY = 86400000;
+
+/**
+ * Returns the device's IANA time zone, e.g. `Europe/Paris`.
+ */
+export const deviceTimeZone = (): string =>
+  new Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const partsFormats = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock time of an instant in a zone, as milliseconds in UTC. */
+const wallClock = (ms: number, timeZone: string): number => {
+  let format = partsFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    partsFormats.set(timeZone, format);
+  }
+  const parts: Record<string, number> = {};
+  for (const { type, value } of format.formatToParts(ms)) {
+    parts[type] = Number(value);
+  }
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+};
+
+/** Offset of a zone from UTC at an instant, in milliseconds. */
+const offsetAt = (ms: number, timeZone: string): number =>
+  wallClock(ms, timeZone) - (ms - (((ms % 1000) + 1000) % 1000));
+
+/**
+ * Turns a date and wall-clock time in a time zone into an absolute
+ * instant, resolving times skipped or repeated by DST changes.
+ *
+ * @param date - The date as `YYYY-MM-DD`, e.g. `ItinDay.date`
+ * @param time - The time, parsed with `parseTimeOfDay` when a string
+ * @param timeZone - IANA time zone, e.g. the destination's. Defaults to
+ *   the device's.
+ * @param disambiguation - How skipped and repeated times are resolved.
+ *   Defaults to `compatible`.
+ * @returns The instant, or `null` when `date` or `time` is malformed
+ * @throws RangeError when `timeZone` is not a valid IANA zone
+ */
+export const resolveZonedTime = (
+  date: string,
+  time: string | TimeOfDay,
+  timeZone: string = deviceTimeZone(),
+  disambiguation: Disambiguation = 'compatible'
+): ZonedInstant | null => {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  const parsed =
+    typeof time === 'string' ? parseTimeOfDay(time) : { ok: true, value: time };
+  if (!dateMatch || !parsed.ok) return null;
+  const [, year, month, day] = dateMatch.map(Number);
+  const { hour, minute } = parsed.value;
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offsets either side of any DST change near the time
+  const before = wall - offsetAt(wall - MS_PER_DAY, timeZone);
+  const after = wall - offsetAt(wall + MS_PER_DAY, timeZone);
+  const candidates = [...new Set([before, after])]
+    .filter(ms => wallClock(ms, timeZone) === wall)
+    .sort((a, b) => a - b);
+
+  if (candidates.length === 1) {
+    return { instant: new Date(candidates[0]), kind: 'unique' };
+  }
+  if (candidates.length === 2) {
+    const ms = disambiguation === 'later' ? candidates[1] : candidates[0];
+    return { instant: new Date(ms), kind: 'overlap' };
+  }
+  // In a gap: the offset before the change lands after the gap
+  const ms = disambiguation === 'earlier' ? after : before;
+  return { instant: new Date(ms), kind: 'gap' };
+};
+
+/**
+ * Converts an instant to the wall-clock date and time of a time zone.
+ *
+ * @param instant - The instant
+ * @param timeZone - IANA time zone, e.g. the destination's. Defaults to
+ *   the device's.
+ * @throws RangeError when `timeZone` is not a valid IANA zone
+ */
+export const toZonedTime = (
+  instant: Date,
+  timeZone: string = deviceTimeZone()
+): ZonedDateTime => {
+  const ms = instant.getTime();
+  const wall = new Date(wallClock(ms, timeZone));
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return {
+    date: `${wall.getUTCFullYear()}-${pad(wall.getUTCMonth() + 1)}-${pad(wall.getUTCDate())}`,
+    time: `${pad(wall.getUTCHours())}:${pad(wall.getUTCMinutes())}`,
+    offset: Math.round(offsetAt(ms, timeZone) / MS_PER_MINUTE),
+  };
+};
+
+/**
+ * Formats an instant's time of day in a time zone, with the configured
+ * formatting (see `configureFormatting`).
+ *
+ * @example formatZonedTime(instant, 'Europe/Paris') => "2:30 PM"
+ *
+ * @param instant - The instant
+ * @param timeZone - IANA time zone: the destination's to show local
+ *   times, or omitted for the device's
+ */
+export const formatZonedTime = (instant: Date, timeZone?: string): string =>
+  formatTime12(toZonedTime(instant, timeZone).time);
+
+/**
+ * The start and end instants of a schedule item.
+ */
+export interface ScheduleInstant {
+  /** Position of the item in the day's `schedule`. */
+  index: number;
+  item: ScheduleItem;
+  /** The start, or `null` when the item is not timed. */
+  start: ZonedInstant | null;
+  /** The end, or `null` when the item has no end time. */
+  end: ZonedInstant | null;
+}
+
+/**
+ * Options accepted by {@link scheduleInstants}.
+ */
+export interface ScheduleInstantsOptions {
+  /** Reads times from schedule items. */
+  accessors?: ScheduleAccessors;
+  /** How times skipped or repeated by DST changes are resolved. */
+  disambiguation?: Disambiguation;
+}
+
+/**
+ * Turns the times of a day's schedule items into absolute instants in the
+ * destination's time zone. An end time earlier than the start (e.g. a
+ * show from 23:00 to 01:00) is taken to be on the next day.
+ *
+ * @param day - The itinerary day; its `date` is a `YYYY-MM-DD` date
+ * @param timeZone - The destination's IANA time zone
+ * @param options - Schedule accessors and DST disambiguation
+ * @returns One entry per schedule item, in schedule order
+ * @throws RangeError when `timeZone` is not a valid IANA zone
+ */
+export const scheduleInstants = (
+  day: ItinDay,
+  timeZone: string,
+  {
+    accessors = DEFAULT_SCHEDULE_ACCESSORS,
+    disambiguation,
+  }: ScheduleInstantsOptions = {}
+): ScheduleInstant[] => {
+  const endTime = accessors.endTime ?? DEFAULT_SCHEDULE_ACCESSORS.endTime;
+  return (day.schedule as ScheduleItem[]).map((item, index) => {
+    const time = accessors.time(item);
+    const until = endTime?.(item);
+    const start =
+      time === undefined
+        ? null
+        : resolveZonedTime(day.date, time, timeZone, disambiguation);
+    let end =
+      until === undefined
+        ? null
+        : resolveZonedTime(day.date, until, timeZone, disambiguation);
+    if (start && end && end.instant < start.instant && until !== undefined) {
+      const nextDay = new Date(Date.parse(`${day.date}T00:00Z`) + MS_PER_DAY)
+        .toISOString()
+        .slice(0, 10);
+      end = resolveZonedTime(nextDay, until, timeZone, disambiguation);
+    }
+    return { index, item, start, end };
+  });
+};
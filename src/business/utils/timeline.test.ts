@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { ItinDay } from '@sudobility/superguide_types';
+import { formatClockTime } from './formatting';
+import type { RouteInfo } from './geo';
+import { computeDayTimeline } from './timeline';
+
+const walk = (minutes: number): RouteInfo => ({
+  mode: 'walking',
+  duration: minutes * 60,
+  distance: minutes * 80,
+  coords: [],
+});
+
+const day = (
+  ...schedule: Array<{ place?: string; time?: string; endTime?: string }>
+): ItinDay => ({ day: 1, date: '2024-06-01', schedule });
+
+describe('computeDayTimeline', () => {
+  it('departs when the previous item ends and arrives after the walk', () => {
+    const { legs, items } = computeDayTimeline(
+      day(
+        { place: 'Louvre', time: '09:00', endTime: '11:00' },
+        { place: 'Orsay', time: '11:30', endTime: '13:00' }
+      ),
+      [walk(15)]
+    );
+    expect(legs[0]).toMatchObject({ departure: 660, arrival: 675 });
+    expect(items[1]).toMatchObject({
+      status: 'on_time',
+      start: 690,
+      arrival: 675,
+      slack: 15,
+      conflicts: [],
+    });
+    expect(formatClockTime(legs[0].arrival as number)).toBe('11:15');
+  });
+
+  it('marks items reached with little to spare as tight', () => {
+    const { items } = computeDayTimeline(
+      day(
+        { place: 'Louvre', time: '09:00', endTime: '11:00' },
+        { place: 'Orsay', time: '11:20' }
+      ),
+      [walk(15)],
+      { tightMargin: 10 }
+    );
+    expect(items[1].status).toBe('tight');
+  });
+
+  it('flags travel that exceeds the gap between items', () => {
+    const { items } = computeDayTimeline(
+      day(
+        { place: 'Louvre', time: '09:00', endTime: '11:00' },
+        { place: 'Orsay', time: '11:10' }
+      ),
+      [walk(25)]
+    );
+    expect(items[1]).toMatchObject({
+      status: 'late',
+      slack: -15,
+      conflicts: [{ type: 'travel', previousIndex: 0, minutes: 15 }],
+    });
+  });
+
+  it('carries a late arrival over to the following legs', () => {
+    const { legs, items } = computeDayTimeline(
+      day(
+        { place: 'A', time: '09:00', endTime: '10:00' },
+        { place: 'B', time: '10:00' },
+        { place: 'C', time: '10:45' }
+      ),
+      [walk(30), walk(30)]
+    );
+    expect(legs[1]).toMatchObject({ departure: 630, arrival: 660 });
+    expect(items.map(item => item.status)).toEqual(['on_time', 'late', 'late']);
+  });
+
+  it('flags items that start before an earlier item ends', () => {
+    const { items } = computeDayTimeline(
+      day(
+        { place: 'Louvre', time: '09:00', endTime: '12:00' },
+        { time: '11:00', endTime: '11:30' },
+        { place: 'Louvre', time: '11:45' }
+      ),
+      [walk(0)]
+    );
+    expect(items[1].conflicts).toEqual([
+      { type: 'overlap', previousIndex: 0, minutes: 60 },
+    ]);
+    expect(items[2].conflicts).toContainEqual({
+      type: 'overlap',
+      previousIndex: 0,
+      minutes: 15,
+    });
+    expect(items.map(item => item.status)).toEqual(['on_time', 'late', 'late']);
+  });
+
+  it('leaves times unknown after an unresolved leg', () => {
+    const { legs, items } = computeDayTimeline(
+      day({ place: 'A', time: '09:00' }, { place: 'B' }, { place: 'C' }),
+      [null, walk(10)]
+    );
+    expect(legs[0]).toMatchObject({ route: null, departure: 540 });
+    expect(legs[0].arrival).toBeUndefined();
+    expect(legs[1].departure).toBeUndefined();
+    expect(items.every(item => item.status === 'on_time')).toBe(true);
+  });
+});
@@ -0,0 +1,196 @@
+import type { ItinDay } from '@sudobility/superguide_types';
+import type { RouteInfo } from './geo';
+import {
+  type DayLeg,
+  dayLegs,
+  DEFAULT_SCHEDULE_ACCESSORS,
+  type ScheduleAccessors,
+  type ScheduleItem,
+} from './itinerary';
+import { parseTimeOfDay, toMinutes } from './timeOfDay';
+
+/**
+ * Whether a schedule item can be reached in time.
+ *
+ * - `on_time`: reached with at least the tight margin to spare
+ * - `tight`: reached in time, but with less than the tight margin
+ * - `late`: reached after it starts, or it starts before an earlier item
+ *   ends
+ */
+export type ScheduleItemStatus = 'on_time' | 'tight' | 'late';
+
+/**
+ * A problem with the timing of a schedule item.
+ *
+ * - `travel`: travel from the previous stop arrives after the item starts
+ * - `overlap`: the item starts before an earlier item ends
+ */
+export interface ScheduleConflict {
+  type: 'travel' | 'overlap';
+  /** `schedule` index of the earlier item involved. */
+  previousIndex: number;
+  /** Minutes of lateness or overlap. */
+  minutes: number;
+}
+
+/**
+ * A leg with its expected departure and arrival, in minutes after
+ * midnight. Times are unknown when the leg is unresolved or when its
+ * start stop has no time and is not reached by a known leg.
+ */
+export interface LegTiming extends DayLeg {
+  route: RouteInfo | null;
+  departure?: number;
+  arrival?: number;
+}
+
+/**
+ * The timing of a schedule item, in minutes after midnight.
+ */
+export interface ScheduleItemTiming {
+  /** Position of the item in the day's `schedule`. */
+  index: number;
+  item: ScheduleItem;
+  status: ScheduleItemStatus;
+  /** Planned start, when the item is timed. */
+  start?: number;
+  /** Planned end, when the item has one. */
+  end?: number;
+  /** Expected arrival, when the item is reached by a resolved leg. */
+  arrival?: number;
+  /** Minutes between arrival and start; negative when arriving late. */
+  slack?: number;
+  conflicts: ScheduleConflict[];
+}
+
+/**
+ * The expected timing of an itinerary day.
+ */
+export interface DayTimeline {
+  /** Every schedule item, in schedule order. */
+  items: ScheduleItemTiming[];
+  /** Every leg of `dayLegs`, in the same order. */
+  legs: LegTiming[];
+}
+
+/**
+ * Default slack in minutes below which an item is `tight`.
+ */
+export const DEFAULT_TIGHT_MARGIN_MINUTES = 10;
+
+/**
+ * Options accepted by {@link computeDayTimeline}.
+ */
+export interface ComputeDayTimelineOptions {
+  /** Reads locations and times from schedule items. */
+  accessors?: ScheduleAccessors;
+  /** Slack in minutes below which an item is `tight`. Defaults to 10. */
+  tightMargin?: number;
+}
+
+const minutesOf = (time: string | undefined): number | undefined => {
+  if (time === undefined) return undefined;
+  const parsed = parseTimeOfDay(time);
+  return parsed.ok ? toMinutes(parsed.value) : undefined;
+};
+
+/**
+ * Walks an itinerary day with its resolved legs and computes when each
+ * leg departs and arrives, and whether each item can be reached in time.
+ *
+ * A leg departs when its start item ends, or on arrival there when that
+ * is later. Items without an end are left as soon as they start (or are
+ * reached). Items that start before an earlier item ends, or that are
+ * reached after they start, are `late`; items reached with less than
+ * `tightMargin` minutes to spare are `tight`.
+ *
+ * @param day - The itinerary day
+ * @param routes - The route of each leg of `dayLegs`, in the same order;
+ *   `null` for unresolved legs
+ * @param options - Schedule accessors and the tight margin
+ */
+export const computeDayTimeline = (
+  day: ItinDay,
+  routes: (RouteInfo | null)[],
+  {
+    accessors = DEFAULT_SCHEDULE_ACCESSORS,
+    tightMargin = DEFAULT_TIGHT_MARGIN_MINUTES,
+  }: ComputeDayTimelineOptions = {}
+): DayTimeline => {
+  const endTime = accessors.endTime ?? DEFAULT_SCHEDULE_ACCESSORS.endTime;
+  const items: ScheduleItemTiming[] = (day.schedule as ScheduleItem[]).map(
+    (item, index) => {
+      const start = minutesOf(accessors.time(item));
+      const end = minutesOf(endTime?.(item));
+      return {
+        index,
+        item,
+        status: 'on_time',
+        ...(start === undefined ? {} : { start }),
+        ...(end === undefined ? {} : { end }),
+        conflicts: [],
+      };
+    }
+  );
+
+  // The latest end so far, and the item it belongs to.
+  let latestEnd: number | undefined;
+  let latestIndex = 0;
+  for (const timing of items) {
+    if (
+      timing.start !== undefined &&
+      latestEnd !== undefined &&
+      timing.start < latestEnd
+    ) {
+      timing.conflicts.push({
+        type: 'overlap',
+        previousIndex: latestIndex,
+        minutes: latestEnd - timing.start,
+      });
+    }
+    const end = timing.end ?? timing.start;
+    if (end !== undefined && (latestEnd === undefined || end >= latestEnd)) {
+      latestEnd = end;
+      latestIndex = timing.index;
+    }
+  }
+
+  const leaveAt = (timing: ScheduleItemTiming): number | undefined => {
+    const times = [timing.end ?? timing.start, timing.arrival].filter(
+      (time): time is number => time !== undefined
+    );
+    return times.length > 0 ? Math.max(...times) : undefined;
+  };
+
+  const legs: LegTiming[] = dayLegs(day, accessors).map((leg, i) => {
+    const route = routes[i] ?? null;
+    const departure = leaveAt(items[leg.from.index]);
+    if (!route || departure === undefined) {
+      return departure === undefined
+        ? { ...leg, route }
+        : { ...leg, route, departure };
+    }
+    const arrival = departure + route.duration / 60;
+    const to = items[leg.to.index];
+    to.arrival = arrival;
+    if (to.start !== undefined) {
+      to.slack = to.start - arrival;
+      if (to.slack < 0) {
+        to.conflicts.push({
+          type: 'travel',
+          previousIndex: leg.from.index,
+          minutes: -to.slack,
+        });
+      }
+    }
+    return { ...leg, route, departure, arrival };
+  });
+
+  for (const timing of items) {
+    if (timing.conflicts.length > 0) timing.status = 'late';
+    else if (timing.slack !== undefined && timing.slack < tightMargin) {
+      timing.status = 'tight';
+    }
+  }
+  return { items, legs };
+};
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { resetGeoConfig } from './geo';
+import { createOtpTransitProvider } from './transit';
+
+const from = { lat: 48.85, lng: 2.35 };
+const to = { lat: 48.88, lng: 2.3 };
+
+const mockFetchJson = (body: unknown, status = 200) =>
+  vi
+    .spyOn(globalThis, 'fetch')
+    .mockResolvedValue(new Response(JSON.stringify(body), { status }));
+
+const place = (name: string, lat: number, lon: number) => ({ name, lat, lon });
+
+describe('createOtpTransitProvider', () => {
+  afterEach(() => {
+    resetGeoConfig();
+    vi.restoreAllMocks();
+  });
+
+  it('maps OTP legs to walk and ride segments with waits', async () => {
+    const fetchSpy = mockFetchJson({
+      plan: {
+        itineraries: [
+          {
+            duration: 1500,
+            legs: [
+              {
+                mode: 'WALK',
+                startTime: 0,
+                endTime: 300_000,
+                distance: 350,
+                from: place('Origin', 48.85, 2.35),
+                to: place('Châtelet', 48.858, 2.347),
+              },
+              {
+                mode: 'SUBWAY',
+                transitLeg: true,
+                routeShortName: '4',
+                headsign: 'Porte de Clignancourt',
+                routeColor: 'BB4D98',
+                startTime: 420_000,
+                endTime: 1_380_000,
+                distance: 4200,
+                from: place('Châtelet', 48.858, 2.347),
+                to: place('Barbès', 48.883, 2.35),
+              },
+            ],
+          },
+        ],
+      },
+    });
+    const provider = createOtpTransitProvider({
+      baseUrl: 'https://otp.example.com/',
+    });
+    const route = await provider.plan(from, to, {
+      departAt: new Date(2024, 4, 1, 9, 5),
+    });
+
+    const url = String(fetchSpy.mock.calls[0][0]);
+    expect(url).toContain('https://otp.example.com/otp/routers/default/plan?');
+    expect(url).toContain('date=2024-05-01&time=09:05');
+    expect(route?.duration).toBe(1500);
+    expect(route?.distance).toBe(4550);
+    expect(route?.segments).toHaveLength(2);
+    expect(route?.segments[0]).toMatchObject({ type: 'walk', wait: 0 });
+    expect(route?.segments[1]).toMatchObject({
+      type: 'ride',
+      wait: 120,
+      duration: 960,
+      line: { name: '4', vehicle: 'SUBWAY', color: '#BB4D98' },
+      fromStop: { name: 'Châtelet' },
+      toStop: { name: 'Barbès', coords: { lat: 48.883, lng: 2.35 } },
+    });
+  });
+
+  it('returns null when OTP finds no itinerary', async () => {
+    mockFetchJson({ plan: { itineraries: [] } });
+    const provider = createOtpTransitProvider({ baseUrl: 'http://otp' });
+    expect(await provider.plan(from, to)).toBeNull();
+  });
+
+  it('throws a GeoError on HTTP errors', async () => {
+    mockFetchJson({}, 503);
+    const provider = createOtpTransitProvider({ baseUrl: 'http://otp' });
+    await expect(provider.plan(from, to)).rejects.toMatchObject({
+      reason: 'network',
+    });
+  });
+});
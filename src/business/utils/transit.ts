@@ -0,0 +1,182 @@
+import { type Coords, GeoError, geoFetch, httpFailureReason } from './geo';
+import { decodePolyline } from './geometry';
+import type { RouteResult } from './routing';
+
+/**
+ * A public-transport stop.
+ */
+export interface TransitStop {
+  name: string;
+  coords: Coords;
+}
+
+/**
+ * The line a {@link TransitSegment} rides on.
+ */
+export interface TransitLine {
+  /** Display name, e.g. `"4"` or `"Red Line"`. */
+  name: string;
+  /** Vehicle type as reported by the feed, e.g. `"BUS"`, `"SUBWAY"`. */
+  vehicle?: string;
+  /** Final destination shown on the vehicle. */
+  headsign?: string;
+  /** Line colour as a CSS hex string, when the feed provides one. */
+  color?: string;
+}
+
+/**
+ * One part of a transit leg: either a walk (access, egress or transfer)
+ * or a ride on a line between two stops.
+ */
+export interface TransitSegment extends RouteResult {
+  type: 'walk' | 'ride';
+  /** Line ridden; set for `ride` segments. */
+  line?: TransitLine;
+  /** Boarding stop; set for `ride` segments. */
+  fromStop?: TransitStop;
+  /** Alighting stop; set for `ride` segments. */
+  toStop?: TransitStop;
+  /** Seconds spent waiting before this segment starts. */
+  wait: number;
+}
+
+/**
+ * A complete transit route. `duration` includes walking and waiting.
+ */
+export interface TransitRoute extends RouteResult {
+  segments: TransitSegment[];
+}
+
+/**
+ * Options accepted by {@link TransitProvider.plan}.
+ */
+export interface TransitPlanOptions {
+  /** Desired departure time. Defaults to now. */
+  departAt?: Date;
+  /** Cancels the request. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A pluggable public-transport journey planner (typically backed by GTFS).
+ *
+ * Adapters resolve to `null` when no journey is available and throw
+ * (preferably a `GeoError`) on transport or response errors.
+ */
+export interface TransitProvider {
+  /** Stable identifier for the backend (used in diagnostics). */
+  readonly name: string;
+  plan: (
+    from: Coords,
+    to: Coords,
+    options?: TransitPlanOptions
+  ) => Promise<TransitRoute | null>;
+}
+
+/**
+ * Configuration for {@link createOtpTransitProvider}.
+ */
+export interface OtpTransitProviderConfig {
+  /** Base URL of the OpenTripPlanner server, e.g. `https://otp.example.com`. */
+  baseUrl: string;
+  /** OTP router id. Defaults to `default`. */
+  routerId?: string;
+}
+
+interface OtpPlace {
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+interface OtpLeg {
+  mode: string;
+  startTime: number;
+  endTime: number;
+  distance: number;
+  transitLeg?: boolean;
+  route?: string;
+  routeShortName?: string;
+  routeLongName?: string;
+  routeColor?: string;
+  headsign?: string;
+  from: OtpPlace;
+  to: OtpPlace;
+  legGeometry?: { points: string };
+}
+
+const toStop = ({ name, lat, lon }: OtpPlace): TransitStop => ({
+  name,
+  coords: { lat, lng: lon },
+});
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+/**
+ * Transit adapter for an OpenTripPlanner (1.x/2.x REST) server loaded with
+ * GTFS feeds.
+ *
+ * OTP interprets the requested date and time in the router's time zone;
+ * they are sent as the device's local wall-clock time of `departAt`.
+ */
+export const createOtpTransitProvider = ({
+  baseUrl,
+  routerId = 'default',
+}: OtpTransitProviderConfig): TransitProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+  return {
+    name: `otp:${root}`,
+    plan: async (from, to, { departAt = new Date(), signal } = {}) => {
+      const date = `${departAt.getFullYear()}-${pad(departAt.getMonth() + 1)}-${pad(departAt.getDate())}`;
+      const time = `${pad(departAt.getHours())}:${pad(departAt.getMinutes())}`;
+      const res = await geoFetch(
+        `${root}/otp/routers/${routerId}/plan?fromPlace=${from.lat},${from.lng}&toPlace=${to.lat},${to.lng}&mode=TRANSIT,WALK&date=${date}&time=${time}&numItineraries=1`,
+        { signal }
+      );
+      if (!res.ok) {
+        throw new GeoError(
+          httpFailureReason(res.status),
+          `OTP request failed (${res.status})`
+        );
+      }
+      const data = await res.json();
+      const itinerary = data.plan?.itineraries?.[0] as
+        { duration: number; legs: OtpLeg[] } | undefined;
+      if (!itinerary) return null;
+
+      let previousEnd = itinerary.legs[0]?.startTime ?? 0;
+      const segments = itinerary.legs.map((leg): TransitSegment => {
+        const wait = Math.max(0, (leg.startTime - previousEnd) / 1000);
+        previousEnd = leg.endTime;
+        const base = {
+          duration: (leg.endTime - leg.startTime) / 1000,
+          distance: leg.distance,
+          coords: leg.legGeometry
+            ? decodePolyline(leg.legGeometry.points, 5)
+            : [],
+          wait,
+        };
+        if (!leg.transitLeg) return { type: 'walk', ...base };
+        return {
+          type: 'ride',
+          ...base,
+          line: {
+            name: leg.routeShortName || leg.routeLongName || leg.route || '',
+            vehicle: leg.mode,
+            headsign: leg.headsign,
+            color: leg.routeColor ? `#${leg.routeColor}` : undefined,
+          },
+          fromStop: toStop(leg.from),
+          toStop: toStop(leg.to),
+        };
+      });
+
+      return {
+        duration: itinerary.duration,
+        distance: segments.reduce((sum, s) => sum + s.distance, 0),
+        coords: segments.flatMap(s => s.coords),
+        segments,
+      };
+    },
+  };
+};
@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { ItinDay } from '@sudobility/superguide_types';
+import { useGeoCacheStore } from '../stores/geoCacheStore';
+import { createGazetteerProvider } from './geocoding';
+import type { DurationMatrix, RoutingProvider } from './routing';
+import { computeDayTimeline } from './timeline';
+import { optimizeVisitOrder } from './visitOrder';
+
+// Four places on a line, 1 km apart: A - B - C - D
+const geocoder = createGazetteerProvider(
+  ['A', 'B', 'C', 'D'].map((name, i) => ({
+    name,
+    coords: { lat: 48.85, lng: 2.3 + i * 0.0137 },
+  }))
+);
+
+/** Travel time is proportional to the distance along the line. */
+const lineRouter: RoutingProvider = {
+  name: 'line',
+  route: async () => null,
+  table: async points =>
+    points.map(a => points.map(b => Math.abs(a.lng - b.lng) * 60000)),
+};
+
+const day = (
+  ...items: Array<{ place: string; pinned?: boolean; fixedTime?: boolean }>
+): ItinDay => ({ day: 1, date: '2024-06-01', schedule: items });
+
+describe('optimizeVisitOrder', () => {
+  afterEach(() => {
+    useGeoCacheStore.getState().clearAll();
+  });
+
+  it('untangles a zig-zag day and reports the minutes saved', async () => {
+    const result = await optimizeVisitOrder(
+      day({ place: 'A' }, { place: 'C' }, { place: 'B' }, { place: 'D' }),
+      { geocoder, router: lineRouter }
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.order).toEqual([0, 2, 1, 3]);
+    expect(result.value.schedule.map(item => item.place)).toEqual([
+      'A',
+      'B',
+      'C',
+      'D',
+    ]);
+    expect(result.value.optimizedDuration).toBeLessThan(
+      result.value.currentDuration
+    );
+    expect(result.value.minutesSaved).toBeGreaterThan(0);
+    expect(result.value.estimated).toBe(false);
+  });
+
+  it('gives moved items the times of their new slots', async () => {
+    const timed: ItinDay = {
+      day: 1,
+      date: '2024-06-01',
+      schedule: [
+        { place: 'A', time: '09:00', endTime: '10:00' },
+        { place: 'C', time: '10:30', endTime: '11:00' },
+        { place: 'B', time: '11:30–12:30' },
+        { place: 'D', time: '13:00' },
+      ],
+    };
+    const result = await optimizeVisitOrder(timed, {
+      geocoder,
+      router: lineRouter,
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.schedule).toEqual([
+      { place: 'A', time: '09:00', endTime: '10:00' },
+      { place: 'B', time: '10:30', endTime: '11:00' },
+      { place: 'C', time: '11:30–12:30' },
+      { place: 'D', time: '13:00' },
+    ]);
+
+    const { items } = computeDayTimeline(
+      { ...timed, schedule: result.value.schedule },
+      [null, null, null]
+    );
+    expect(items.flatMap(item => item.conflicts)).toEqual([]);
+  });
+
+  it('re-times moved items with a custom retime', async () => {
+    const result = await optimizeVisitOrder(
+      day({ place: 'A' }, { place: 'C' }, { place: 'B' }),
+      {
+        geocoder,
+        router: lineRouter,
+        retime: (item, slot) => ({ ...item, slot: slot.place }),
+      }
+    );
+    expect(result.ok && result.value.schedule).toEqual([
+      { place: 'A' },
+      { place: 'B', slot: 'C' },
+      { place: 'C', slot: 'B' },
+    ]);
+  });
+
+  it('keeps pinned and fixed-time items in place', async () => {
+    const result = await optimizeVisitOrder(
+      day(
+        { place: 'A' },
+        { place: 'D', pinned: true },
+        { place: 'B' },
+        { place: 'C', fixedTime: true }
+      ),
+      { geocoder, router: lineRouter }
+    );
+    expect(result.ok && result.value.order).toEqual([0, 1, 2, 3]);
+    expect(result.ok && result.value.minutesSaved).toBe(0);
+  });
+
+  it('leaves unlocated items where they are', async () => {
+    const result = await optimizeVisitOrder(
+      {
+        day: 1,
+        date: '2024-06-01',
+        schedule: [
+          { place: 'A' },
+          { place: 'C' },
+          { title: 'Lunch break' },
+          { place: 'B' },
+        ],
+      },
+      { geocoder, router: lineRouter }
+    );
+    expect(result.ok && result.value.order).toEqual([0, 3, 2, 1]);
+  });
+
+  it('estimates travel times when the router has no matrix', async () => {
+    const result = await optimizeVisitOrder(
+      day({ place: 'A' }, { place: 'C' }, { place: 'B' }),
+      { geocoder, router: { name: 'no-table', route: async () => null } }
+    );
+    expect(result).toMatchObject({
+      ok: true,
+      value: { order: [0, 2, 1], estimated: true },
+    });
+  });
+
+  it('fills unroutable pairs with estimates', async () => {
+    const router: RoutingProvider = {
+      name: 'gaps',
+      route: async () => null,
+      table: async points =>
+        points.map((_, i) =>
+          points.map((_, j) => (i === 0 && j === 1 ? null : 60))
+        ) as DurationMatrix,
+    };
+    const result = await optimizeVisitOrder(
+      day({ place: 'A' }, { place: 'B' }),
+      { geocoder, router }
+    );
+    expect(result.ok && result.value.estimated).toBe(true);
+  });
+
+  it('reports the geocoding failure of a stop', async () => {
+    const result = await optimizeVisitOrder(
+      day({ place: 'A' }, { place: 'Atlantis' }),
+      { geocoder, router: lineRouter }
+    );
+    expect(result).toMatchObject({ ok: false, reason: 'not_found' });
+  });
+});
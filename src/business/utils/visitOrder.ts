@@ -0,0 +1,240 @@
+import type { ItinDay } from '@sudobility/superguide_types';
+import {
+  type Coords,
+  fetchDurationMatrix,
+  type GeoResult,
+  resolveEndpoint,
+} from './geo';
+import type { GeocodeBias, GeocodingProvider } from './geocoding';
+import {
+  DEFAULT_SCHEDULE_ACCESSORS,
+  locatedStops,
+  type ScheduleAccessors,
+  type ScheduleItem,
+} from './itinerary';
+import type { RoutingProfile, RoutingProvider } from './routing';
+
+/**
+ * Options accepted by {@link optimizeVisitOrder}.
+ */
+export interface OptimizeVisitOrderOptions {
+  /** Profile the travel times are computed for. Defaults to `foot`. */
+  profile?: RoutingProfile;
+  /** Reads locations and the pinned/fixed-time flags from schedule items. */
+  accessors?: ScheduleAccessors;
+  /**
+   * Gives a moved item the times of the slot it moves into. Defaults to
+   * copying the slot item's `time` and `endTime` fields, which the default
+   * accessors read; pass one matching custom accessors.
+   */
+  retime?: (item: ScheduleItem, slot: ScheduleItem) => ScheduleItem;
+  /** Overrides the configured geocoding provider. */
+  geocoder?: GeocodingProvider;
+  /** Geographic context for geocoding the stops. */
+  bias?: GeocodeBias;
+  /** Overrides the configured routing provider for the matrix. */
+  router?: RoutingProvider;
+  /** Cancels all lookups; the promise then rejects with the abort reason. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A suggested visit order for a day.
+ */
+export interface VisitOrderSuggestion {
+  /**
+   * The day's schedule in the suggested order. Moved items take over the
+   * times of the slots they move into, so the day stays in time order.
+   */
+  schedule: ScheduleItem[];
+  /** Original `schedule` index of each item of {@link schedule}. */
+  order: number[];
+  /** Travel time of the current order in seconds. */
+  currentDuration: number;
+  /** Travel time of the suggested order in seconds. */
+  optimizedDuration: number;
+  /** Whole minutes saved by the suggested order. */
+  minutesSaved: number;
+  /** Whether travel times are straight-line estimates (e.g. offline). */
+  estimated: boolean;
+}
+
+/** Largest number of movable stops whose orders are all tried. */
+const EXHAUSTIVE_LIMIT = 8;
+
+const TIME_FIELDS = ['time', 'endTime'];
+
+/** Copies the slot's `time` and `endTime` fields (or their absence). */
+const takeSlotTimes = (
+  item: ScheduleItem,
+  slot: ScheduleItem
+): ScheduleItem => {
+  if (!item || typeof item !== 'object') return item;
+  const retimed: Record<string, unknown> = { ...item };
+  for (const key of TIME_FIELDS) {
+    const value =
+      slot && typeof slot === 'object'
+        ? (slot as Record<string, unknown>)[key]
+        : undefined;
+    if (value === undefined) delete retimed[key];
+    else retimed[key] = value;
+  }
+  return retimed as ScheduleItem;
+};
+
+const pathDuration = (order: number[], durations: number[][]): number =>
+  order.slice(1).reduce((sum, stop, i) => sum + durations[order[i]][stop], 0);
+
+/**
+ * Calls `visit` with every permutation of `items` (Heap's algorithm). The
+ * array passed to `visit` is reused between calls.
+ */
+const forEachPermutation = (
+  items: number[],
+  visit: (permutation: number[]) => void
+): void => {
+  const a = [...items];
+  const c = new Array<number>(a.length).fill(0);
+  visit(a);
+  let i = 1;
+  while (i < a.length) {
+    if (c[i] < i) {
+      const j = i % 2 === 0 ? 0 : c[i];
+      [a[j], a[i]] = [a[i], a[j]];
+      visit(a);
+      c[i]++;
+      i = 1;
+    } else {
+      c[i] = 0;
+      i++;
+    }
+  }
+};
+
+/**
+ * Finds the cheapest order of the stops that keeps anchored stops in
+ * their slots. Tries every order for few movable stops, and improves the
+ * current order by pairwise swaps otherwise.
+ */
+const bestOrder = (anchored: boolean[], durations: number[][]): number[] => {
+  const current = anchored.map((_, i) => i);
+  const slots = current.filter(i => !anchored[i]);
+  let best = current;
+  let bestDuration = pathDuration(current, durations);
+
+  if (slots.length <= EXHAUSTIVE_LIMIT) {
+    const candidate = [...current];
+    forEachPermutation(slots, permutation => {
+      slots.forEach((slot, k) => (candidate[slot] = permutation[k]));
+      const duration = pathDuration(candidate, durations);
+      if (duration < bestDuration) {
+        best = [...candidate];
+        bestDuration = duration;
+      }
+    });
+    return best;
+  }
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let a = 0; a < slots.length; a++) {
+      for (let b = a + 1; b < slots.length; b++) {
+        const candidate = [...best];
+        [candidate[slots[a]], candidate[slots[b]]] = [
+          candidate[slots[b]],
+          candidate[slots[a]],
+        ];
+        const duration = pathDuration(candidate, durations);
+        if (duration < bestDuration) {
+          best = candidate;
+          bestDuration = duration;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Suggests the order of a day's located stops with the least travel time.
+ *
+ * Stops are geocoded and a travel-time matrix is built with the routing
+ * provider (OSRM `table`), or estimated from straight-line distances when
+ * that is unavailable. Pinned and fixed-time items keep their position;
+ * the other located items are reordered among the remaining positions.
+ * Unlocated items stay where they are. Moved items are given the times
+ * of the slots they move into (see `retime`), so the suggested day keeps
+ * its time order; travel between the new neighbours is not checked.
+ *
+ * @param day - The itinerary day
+ * @param options - Profile, accessors, re-timing, provider overrides, bias
+ *   and signal
+ * @returns The suggested schedule with the minutes saved (the current
+ *   order when nothing is faster), or the geocoding failure of a stop
+ * @throws The signal's abort reason when `options.signal` aborts
+ */
+export async function optimizeVisitOrder(
+  day: ItinDay,
+  {
+    profile = 'foot',
+    accessors = DEFAULT_SCHEDULE_ACCESSORS,
+    retime = takeSlotTimes,
+    geocoder,
+    bias,
+    router,
+    signal,
+  }: OptimizeVisitOrderOptions = {}
+): Promise<GeoResult<VisitOrderSuggestion>> {
+  const stops = locatedStops(day, accessors);
+  const located = await Promise.all(
+    stops.map(stop =>
+      resolveEndpoint(stop.place, { provider: geocoder, bias, signal })
+    )
+  );
+  const points: Coords[] = [];
+  for (const result of located) {
+    if (!result.ok) return result;
+    points.push(result.value);
+  }
+
+  const { durations, estimated } = await fetchDurationMatrix(points, profile, {
+    provider: router,
+    signal,
+  });
+  const isPinned = accessors.pinned ?? DEFAULT_SCHEDULE_ACCESSORS.pinned;
+  const isFixedTime =
+    accessors.fixedTime ?? DEFAULT_SCHEDULE_ACCESSORS.fixedTime;
+  const anchored = stops.map(
+    ({ item }) => !!isPinned?.(item) || !!isFixedTime?.(item)
+  );
+  const stopOrder = bestOrder(anchored, durations);
+
+  const schedule = [...(day.schedule as ScheduleItem[])];
+  const order = schedule.map((_, i) => i);
+  stopOrder.forEach((stop, slot) => {
+    schedule[stops[slot].index] =
+      stop === slot
+        ? stops[stop].item
+        : retime(stops[stop].item, stops[slot].item);
+    order[stops[slot].index] = stops[stop].index;
+  });
+
+  const currentDuration = pathDuration(
+    stops.map((_, i) => i),
+    durations
+  );
+  const optimizedDuration = pathDuration(stopOrder, durations);
+  return {
+    ok: true,
+    value: {
+      schedule,
+      order,
+      currentDuration,
+      optimizedDuration,
+      minutesSaved: Math.floor((currentDuration - optimizedDuration) / 60),
+      estimated,
+    },
+  };
+}